@@ -1,13 +1,41 @@
-import { useState, useRef, useEffect } from "react";
-import { Form, Link } from "react-router";
-import { extractSpotifyTrackId } from "../lib/utils";
+import { useState, useRef, useEffect, useMemo, useId } from "react";
+import { Form, Link, useFetcher } from "react-router";
+import { extractSpotifyTrackId, getPolygonCenter, DEFAULT_UNLOCK_RADIUS, type LatLng } from "../lib/utils";
 import { getGoogleStaticMapUrl } from "../lib/utils";
 import { 
   parsePlacelistText, 
-  formatAsYaml
+  detectPlacelistFormat,
+  formatPlacelistItems,
+  patchYamlItems,
+  parseCsv,
+  guessCsvColumnMapping,
+  mapCsvRows
 } from "../lib/placelistParsers";
-import type { PlacelistItem } from "../lib/placelistParsers";
-import { GoogleMap, useJsApiLoader, Marker } from '@react-google-maps/api';
+import {
+  describeAvailability,
+  formatNextOpening,
+  formatWeeklyHours,
+  formatZonedDateTime,
+  getScheduleStatus,
+  getScheduleTimeZone,
+  getWeeklyHours,
+  parseZonedDateTime,
+  validateSchedule,
+  type Availability,
+  type WeeklyHours
+} from "../lib/schedule";
+import { SPOOFING_STRICTNESS_LEVELS } from "../lib/spoofing";
+import { hasBranches, layoutRouteGraph } from "../lib/branches";
+import type { 
+  PlacelistItem, 
+  PlacelistFormat, 
+  ImportedPlacemark,
+  CsvField,
+  CsvColumnMapping,
+  ParseDiagnostic,
+  PlacelistEdit
+} from "../lib/placelistParsers";
+import { GoogleMap, useJsApiLoader, Marker, Polygon } from '@react-google-maps/api';
 import { 
   DropdownMenu,
   DropdownMenuContent,
@@ -44,9 +72,17 @@ interface PlacelistEditorProps {
   defaultValues: {
     name: string;
     description: string;
+    defaultRadius: string;
+    activeFrom: string;
+    activeUntil: string;
+    spoofingStrictness: string;
+    playOrder: string;
     placelistText: string;
   };
   errors?: Record<string, string>;
+  diagnostics?: ParseDiagnostic[];
+  // Stops players have unlocked that saving would remove, for the author to confirm
+  removedStops?: Array<{ title: string; sessions: number }>;
   isSubmitting: boolean;
   isEditing: boolean;
   cancelHref?: string;
@@ -57,7 +93,125 @@ interface PlacelistEditorProps {
 // Used to track which item is being edited
 interface EditingState {
   index: number;
-  type: 'location' | 'spotify' | 'schedule' | null;
+  type: 'location' | 'spotify' | 'schedule' | 'story' | 'radius' | null;
+}
+
+// List of parse errors and warnings, with the line each one refers to
+function ParseDiagnosticsList({ diagnostics }: { diagnostics: ParseDiagnostic[] }) {
+  if (diagnostics.length === 0) {
+    return null;
+  }
+  
+  return (
+    <ul className="mt-2 space-y-1 text-sm">
+      {diagnostics.map((diagnostic, i) => (
+        <li
+          key={i}
+          className={`px-3 py-2 rounded border ${
+            diagnostic.severity === 'error'
+              ? 'bg-red-50 border-red-200 text-red-700'
+              : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+          }`}
+        >
+          <span className="font-medium">
+            {diagnostic.severity === 'error' ? 'Error' : 'Warning'}
+            {diagnostic.line !== null && ` (line ${diagnostic.line})`}:
+          </span>{" "}
+          {diagnostic.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Sizes for drawing the route graph, in pixels
+const GRAPH_NODE_WIDTH = 120;
+const GRAPH_NODE_HEIGHT = 44;
+const GRAPH_COLUMN_GAP = 60;
+const GRAPH_ROW_GAP = 20;
+const GRAPH_PADDING = 10;
+
+const truncate = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+// The stops of a branching route and the links between them, from the first stop on the
+// left to the ends of the route on the right
+function RouteGraph({ items }: { items: PlacelistItem[] }) {
+  const markerId = useId();
+  const { nodes, edges, columns, rows } = layoutRouteGraph(items);
+  
+  const nodeX = (column: number) => GRAPH_PADDING + column * (GRAPH_NODE_WIDTH + GRAPH_COLUMN_GAP);
+  const nodeY = (row: number) => GRAPH_PADDING + row * (GRAPH_NODE_HEIGHT + GRAPH_ROW_GAP);
+  const width = nodeX(columns) - GRAPH_COLUMN_GAP + GRAPH_PADDING;
+  const height = nodeY(rows) - GRAPH_ROW_GAP + GRAPH_PADDING;
+  
+  return (
+    <div className="mb-6 bg-white rounded-lg border border-gray-200 p-4">
+      <h3 className="text-sm font-medium mb-2">Route</h3>
+      <div className="overflow-x-auto">
+        <svg width={width} height={height} className="text-xs">
+          <defs>
+            <marker id={markerId} viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#9ca3af" />
+            </marker>
+          </defs>
+          
+          {edges.map(({ from, to, label }, i) => {
+            const start = nodes[from];
+            const end = nodes[to];
+            const x1 = nodeX(start.column) + GRAPH_NODE_WIDTH;
+            const y1 = nodeY(start.row) + GRAPH_NODE_HEIGHT / 2;
+            const x2 = nodeX(end.column);
+            const y2 = nodeY(end.row) + GRAPH_NODE_HEIGHT / 2;
+            
+            return (
+              <g key={i}>
+                <path
+                  d={`M ${x1} ${y1} C ${x1 + GRAPH_COLUMN_GAP} ${y1}, ${x2 - GRAPH_COLUMN_GAP} ${y2}, ${x2} ${y2}`}
+                  fill="none"
+                  stroke="#9ca3af"
+                  strokeWidth="1.5"
+                  markerEnd={`url(#${markerId})`}
+                />
+                {label && (
+                  <text x={(x1 + x2) / 2} y={(y1 + y2) / 2 - 4} textAnchor="middle" fill="#6b7280">
+                    <title>{label}</title>
+                    {truncate(label, 16)}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+          
+          {nodes.map(({ index, column, row, reachable }) => {
+            const item = items[index];
+            
+            return (
+              <g key={index} transform={`translate(${nodeX(column)}, ${nodeY(row)})`}>
+                <title>
+                  {reachable ? (item.title || `Location ${index + 1}`) : "No route leads to this stop"}
+                </title>
+                <rect
+                  width={GRAPH_NODE_WIDTH}
+                  height={GRAPH_NODE_HEIGHT}
+                  rx="6"
+                  fill={reachable ? "#f0fdf4" : "#f9fafb"}
+                  stroke={reachable ? "#22c55e" : "#9ca3af"}
+                  strokeDasharray={reachable ? undefined : "4 3"}
+                />
+                <text x="8" y="18" fontWeight="600" fill="#374151">
+                  {index + 1}
+                </text>
+                <text x="8" y="34" fill="#6b7280">
+                  {truncate(item.title || item.id || "", 18)}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    </div>
+  );
 }
 
 // Sortable item wrapper for drag and drop
@@ -89,16 +243,19 @@ function SortableItem({ children, id }: { children: React.ReactNode, id: string
   );
 }
 
-// Google Maps picker component
+// Google Maps picker component. Picks a single point, or with onAreaSelect, outlines an area point by point.
 const MapPicker = ({ 
   onLocationSelect, 
+  onAreaSelect,
   onCancel
 }: { 
   onLocationSelect: (lat: number, lng: number) => void;
+  onAreaSelect?: (area: LatLng[]) => void;
   onCancel: () => void;
 }) => {
   const [map, setMap] = useState<google.maps.Map | null>(null);
   const [marker, setMarker] = useState<google.maps.LatLngLiteral | null>(null);
+  const [areaPoints, setAreaPoints] = useState<LatLng[]>([]);
   const [center, setCenter] = useState<google.maps.LatLngLiteral>({ lat: 37.7749, lng: -122.4194 });
   const [isLoadingLocation, setIsLoadingLocation] = useState(true);
 
@@ -137,6 +294,12 @@ const MapPicker = ({
     
     const lat = e.latLng.lat();
     const lng = e.latLng.lng();
+    
+    if (onAreaSelect) {
+      setAreaPoints([...areaPoints, { lat, lng }]);
+      return;
+    }
+    
     setMarker({ lat, lng });
     onLocationSelect(lat, lng);
   };
@@ -195,6 +358,12 @@ const MapPicker = ({
         onLoad={map => setMap(map)}
       >
         {marker && <Marker position={marker} />}
+        {areaPoints.length > 0 && (
+          <Polygon
+            paths={areaPoints}
+            options={{ strokeColor: '#22c55e', strokeWeight: 2, fillColor: '#22c55e', fillOpacity: 0.2, clickable: false }}
+          />
+        )}
       </GoogleMap>
       <button 
         onClick={onCancel}
@@ -203,9 +372,33 @@ const MapPicker = ({
       >
         <X size={16} />
       </button>
-      <div className="p-2 bg-gray-100 text-sm text-gray-600">
-        <span>Click anywhere on the map to select a location</span>
-      </div>
+      {onAreaSelect ? (
+        <div className="p-2 bg-gray-100 text-sm text-gray-600 flex flex-wrap items-center gap-2">
+          <span className="flex-1">
+            Click around the edge of the area ({areaPoints.length} point{areaPoints.length === 1 ? '' : 's'} so far)
+          </span>
+          <button
+            type="button"
+            onClick={() => setAreaPoints(areaPoints.slice(0, -1))}
+            disabled={areaPoints.length === 0}
+            className="text-sm bg-gray-300 hover:bg-gray-400 text-gray-800 font-medium py-1 px-2 rounded disabled:opacity-50"
+          >
+            Undo Point
+          </button>
+          <button
+            type="button"
+            onClick={() => onAreaSelect(areaPoints)}
+            disabled={areaPoints.length < 3}
+            className="text-sm bg-green-500 hover:bg-green-600 text-white font-medium py-1 px-2 rounded disabled:opacity-50"
+          >
+            Use This Area
+          </button>
+        </div>
+      ) : (
+        <div className="p-2 bg-gray-100 text-sm text-gray-600">
+          <span>Click anywhere on the map to select a location</span>
+        </div>
+      )}
     </div>
   );
 };
@@ -296,6 +489,224 @@ const LocationEditor = ({
   );
 };
 
+// Optional text that tells the story of a stop
+type StoryFields = Pick<PlacelistItem, 'title' | 'clue' | 'arrivalText'>;
+
+// Form for a stop's title, the clue shown before it is unlocked and the text shown on arrival
+const StoryEditor = ({
+  item,
+  onSave,
+  onCancel
+}: {
+  item: PlacelistItem;
+  onSave: (story: StoryFields) => void;
+  onCancel: () => void;
+}) => {
+  const [title, setTitle] = useState(item.title || '');
+  const [clue, setClue] = useState(item.clue || '');
+  const [arrivalText, setArrivalText] = useState(item.arrivalText || '');
+  
+  return (
+    <div className="p-3 bg-gray-100 border-b border-gray-200 space-y-2">
+      <div>
+        <label className="block text-sm font-medium mb-1">Title (optional)</label>
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          placeholder="e.g., The Ferry Building"
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium mb-1">Clue (shown while the player is looking for this stop)</label>
+        <textarea
+          value={clue}
+          onChange={(e) => setClue(e.target.value)}
+          placeholder="e.g., Find the clock tower where the boats come in"
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded h-16"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium mb-1">Arrival text (shown once the stop is unlocked)</label>
+        <textarea
+          value={arrivalText}
+          onChange={(e) => setArrivalText(e.target.value)}
+          placeholder="e.g., This is where we first met..."
+          className="w-full px-2 py-1 text-sm border border-gray-300 rounded h-16"
+        />
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => onSave({
+            title: title.trim() || undefined,
+            clue: clue.trim() || undefined,
+            arrivalText: arrivalText.trim() || undefined
+          })}
+          className="text-sm bg-green-500 hover:bg-green-600 text-white font-medium py-1 px-2 rounded"
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm bg-gray-300 hover:bg-gray-400 text-gray-800 font-medium py-1 px-2 rounded"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Weekly grid for a stop's opening hours, kept in step with the schedule text it writes.
+// Schedules the grid can't show (holidays, dates, sun times) can still be typed as text.
+const ScheduleBuilder = ({ item }: { item: PlacelistItem }) => {
+  const [text, setText] = useState(item.onlyDuring || '');
+  const [weekly, setWeekly] = useState(() => getWeeklyHours(item.onlyDuring || ''));
+  const error = text.trim() ? validateSchedule(text) : null;
+  const timeZone = getScheduleTimeZone(error ? undefined : text.trim() || undefined, { location: item.location });
+  const [previewAt, setPreviewAt] = useState(() => formatZonedDateTime(new Date(), timeZone));
+  const previewId = useId();
+  
+  const updateText = (value: string) => {
+    setText(value);
+    setWeekly(getWeeklyHours(value));
+  };
+  
+  const updateDay = (day: number, spans: WeeklyHours[number]) => {
+    if (!weekly) return;
+    const days = weekly.days.map((daySpans, index) => index === day ? spans : daySpans);
+    setWeekly({ ...weekly, days });
+    setText(formatWeeklyHours(days, weekly.timeZoneName));
+  };
+  
+  // What a player would see at the chosen time, in the stop's time zone
+  const previewDate = parseZonedDateTime(previewAt, timeZone);
+  const preview = text.trim() && !error && previewDate
+    ? getScheduleStatus(previewDate, text, { location: item.location })
+    : null;
+  
+  const describeWait = (minutes: number) => minutes < 60
+    ? `${minutes} minutes`
+    : `${Math.round(minutes / 60)} hours`;
+  
+  return (
+    <div className="mb-2 space-y-2">
+      <label className="block text-sm font-medium">
+        Opening Hours (optional)
+      </label>
+      
+      {weekly ? (
+        <div className="bg-white border border-gray-200 rounded p-2 space-y-1">
+          {weekly.days.map((spans, day) => (
+            <div key={day} className="flex items-start gap-2">
+              <span className="w-10 text-sm font-medium pt-1">{WEEKDAY_LABELS[day]}</span>
+              <div className="flex-1 space-y-1">
+                {spans.length === 0 ? (
+                  <span className="inline-block text-sm text-gray-400 pt-1">Closed</span>
+                ) : spans.map((span, spanIndex) => (
+                  <div key={spanIndex} className="flex items-center gap-1">
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={span.start}
+                      onChange={(e) => updateDay(day, spans.map((s, i) => i === spanIndex ? { ...s, start: e.target.value } : s))}
+                      aria-label={`${WEEKDAY_LABELS[day]} opens at`}
+                      className="w-16 px-2 py-1 text-sm border border-gray-300 rounded font-mono"
+                    />
+                    <span className="text-sm text-gray-500">to</span>
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      value={span.end}
+                      onChange={(e) => updateDay(day, spans.map((s, i) => i === spanIndex ? { ...s, end: e.target.value } : s))}
+                      aria-label={`${WEEKDAY_LABELS[day]} closes at`}
+                      className="w-16 px-2 py-1 text-sm border border-gray-300 rounded font-mono"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => updateDay(day, spans.filter((_, i) => i !== spanIndex))}
+                      aria-label={`Remove ${WEEKDAY_LABELS[day]} hours`}
+                      className="p-1 text-gray-500 hover:text-red-600"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => updateDay(day, [...spans, spans.length > 0 ? { ...spans[spans.length - 1] } : { start: '09:00', end: '17:00' }])}
+                className="text-xs text-blue-600 hover:underline pt-1"
+              >
+                + Hours
+              </button>
+              {day > 0 && (
+                <button
+                  type="button"
+                  onClick={() => updateDay(day, weekly.days[day - 1].map(s => ({ ...s })))}
+                  className="text-xs text-blue-600 hover:underline pt-1"
+                >
+                  Same as {WEEKDAY_LABELS[day - 1]}
+                </button>
+              )}
+            </div>
+          ))}
+          <p className="text-xs text-gray-500">
+            Leave every day closed for a stop that is always open.
+          </p>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-600 bg-white border border-gray-200 rounded p-2">
+          This schedule uses more than weekly hours (dates, holidays or sun times), so edit it as text below.
+        </p>
+      )}
+      
+      <input
+        type="text"
+        name="onlyDuring"
+        value={text}
+        onChange={(e) => updateText(e.target.value)}
+        placeholder="e.g., Mo-Fr 09:00-17:00; Sa 10:00-14:00; PH off"
+        className={`w-full px-2 py-1 text-sm border rounded font-mono ${error ? 'border-red-400' : 'border-gray-300'}`}
+      />
+      {error && (
+        <p className="text-red-500 text-xs">{error}</p>
+      )}
+      
+      {text.trim() && !error && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <label htmlFor={previewId} className="text-gray-600">
+            Preview at
+          </label>
+          <input
+            id={previewId}
+            type="datetime-local"
+            value={previewAt}
+            onChange={(e) => setPreviewAt(e.target.value)}
+            className="px-2 py-1 text-sm border border-gray-300 rounded"
+          />
+          <span className="text-xs text-gray-500">{timeZone} time</span>
+          {preview && (preview.open ? (
+            <span className="text-green-700 font-medium">Open</span>
+          ) : (
+            <span className="text-orange-700">
+              <span className="font-medium">Closed</span>
+              {preview.nextOpenAt && preview.nextOpenIn !== null
+                ? `, opens in ${describeWait(preview.nextOpenIn)} (${formatNextOpening(preview.nextOpenAt, preview.timeZone, previewDate!)})`
+                : ', and doesn\'t open again within a year'}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // PlacelistEntry component for a single entry
 const PlacelistEntry = ({
   item,
@@ -308,21 +719,27 @@ const PlacelistEntry = ({
   onAddCurrentLocation,
   onCancelEdit,
   onUpdateSpotify,
-  onUpdateSchedule
+  onUpdateSchedule,
+  onUpdateStory,
+  onUpdateRadius,
+  onAreaSelect
 }: {
   item: PlacelistItem;
   index: number;
   editingState: EditingState | null;
   isGettingLocation: boolean;
-  onEdit: (index: number, type: 'location' | 'spotify' | 'schedule') => void;
+  onEdit: (index: number, type: NonNullable<EditingState['type']>) => void;
   onRemove: (index: number) => void;
   onLocationSelect: (index: number, lat: number, lng: number) => void;
   onAddCurrentLocation: (index: number) => void;
   onCancelEdit: () => void;
   onUpdateSpotify: (index: number, url: string) => void;
-  onUpdateSchedule: (index: number, schedule: string | undefined) => void;
+  onUpdateSchedule: (index: number, schedule: string | undefined, availability: Availability | undefined) => void;
+  onUpdateStory: (index: number, story: StoryFields) => void;
+  onUpdateRadius: (index: number, radius: number | undefined) => void;
+  onAreaSelect: (index: number, area: LatLng[]) => void;
 }) => {
-  const [showMap, setShowMap] = useState(false);
+  const [showMap, setShowMap] = useState<'point' | 'area' | false>(false);
   
   return (
     <div className="border border-gray-200 rounded-lg overflow-hidden bg-white pl-7">
@@ -331,6 +748,9 @@ const PlacelistEntry = ({
           <span className="inline-block w-6 h-6 text-center bg-green-500 text-white rounded-full mr-2">
             {index + 1}
           </span>
+          {item.title && (
+            <span className="text-sm font-medium mr-2">{item.title}</span>
+          )}
           <span className="text-sm font-mono">
             {item.location.lat !== 0 || item.location.lng !== 0 ? 
               `${item.location.lat.toFixed(6)}, ${item.location.lng.toFixed(6)}` :
@@ -357,6 +777,19 @@ const PlacelistEntry = ({
               </svg>
               <span>Set Opening Hours</span>
             </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onEdit(index, 'story')}>
+              <svg xmlns="http://www.w3.org/2000/svg" className="mr-2 h-4 w-4 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+              </svg>
+              <span>Edit Title &amp; Story</span>
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => onEdit(index, 'radius')}>
+              <svg xmlns="http://www.w3.org/2000/svg" className="mr-2 h-4 w-4 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <circle cx="12" cy="12" r="9" strokeWidth={2} strokeDasharray="3 3" />
+                <circle cx="12" cy="12" r="2" strokeWidth={2} />
+              </svg>
+              <span>Set Unlock Radius</span>
+            </DropdownMenuItem>
             <DropdownMenuSeparator />
             <DropdownMenuItem 
               onClick={() => onRemove(index)}
@@ -377,6 +810,10 @@ const PlacelistEntry = ({
               onLocationSelect(index, lat, lng);
               setShowMap(false);
             }} 
+            onAreaSelect={showMap === 'area' ? (area) => {
+              onAreaSelect(index, area);
+              setShowMap(false);
+            } : undefined}
             onCancel={() => setShowMap(false)} 
           />
         ) : (
@@ -385,7 +822,7 @@ const PlacelistEntry = ({
             <div className="flex flex-wrap gap-2">
               <button
                 type="button"
-                onClick={() => setShowMap(true)}
+                onClick={() => setShowMap('point')}
                 className="text-sm bg-purple-500 hover:bg-purple-600 text-white font-medium py-1 px-3 rounded flex items-center"
               >
                 <svg 
@@ -403,6 +840,25 @@ const PlacelistEntry = ({
                 </svg>
                 Select on Map
               </button>
+              <button
+                type="button"
+                onClick={() => setShowMap('area')}
+                className="text-sm bg-purple-500 hover:bg-purple-600 text-white font-medium py-1 px-3 rounded flex items-center"
+              >
+                <svg 
+                  xmlns="http://www.w3.org/2000/svg" 
+                  className="h-4 w-4 mr-1" 
+                  viewBox="0 0 24 24" 
+                  fill="none" 
+                  stroke="currentColor" 
+                  strokeWidth="2" 
+                  strokeLinecap="round" 
+                  strokeLinejoin="round"
+                >
+                  <path d="M4 6l7-3 9 5-3 12-11-2z" />
+                </svg>
+                Draw Unlock Area
+              </button>
               <button
                 type="button"
                 onClick={() => onAddCurrentLocation(index)}
@@ -475,36 +931,116 @@ const PlacelistEntry = ({
       
       {/* Schedule editor */}
       {editingState?.index === index && editingState?.type === 'schedule' && (
-        <div className="p-3 bg-gray-100 border-b border-gray-200">
+        <div className="p-3 bg-gray-100 border-b border-gray-200" data-schedule-editor>
+          <ScheduleBuilder item={item} />
+          <div className="text-xs text-gray-500 bg-gray-50 p-2 rounded mb-2">
+            <p className="font-semibold mb-1">Format:</p>
+            <p>
+              OpenStreetMap <code>opening_hours</code> values can be pasted as they are, followed by an
+              optional timezone:
+            </p>
+            <ul className="list-disc list-inside mt-1 ml-2 space-y-1">
+              <li>Days and times: Mo-Fr 09:00-17:00; Sa 10:00-14:00</li>
+              <li>Closed days: Su off; Dec 25 off; PH off (public holidays)</li>
+              <li>Seasons and weeks: Apr-Sep 08:00-20:00; week 01-10 Mo 10:00-12:00</li>
+              <li>Daylight: sunrise-sunset; sunset-30min to sunset+30min; (sunset-01:00)-dusk</li>
+              <li>Comments: Mo-Fr 09:00-17:00 "ring the bell"</li>
+              <li>Timezone: an IANA name like America/New_York or a code like EST at the end; leave it out to use the zone at the stop's location</li>
+            </ul>
+            <p className="mt-1">The older format still works: 9am-5:30pm (MO-FR); 11-3 (SA) EST</p>
+          </div>
           <div className="mb-2">
             <label className="block text-sm font-medium mb-1">
-              Opening Hours (optional)
+              Available Dates (optional)
             </label>
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <input
+                type="date"
+                name="availableFrom"
+                aria-label="Available from"
+                defaultValue={item.availability?.from ?? ''}
+                className="px-2 py-1 text-sm border border-gray-300 rounded"
+              />
+              <span className="text-sm text-gray-500">to</span>
+              <input
+                type="date"
+                name="availableUntil"
+                aria-label="Available until"
+                defaultValue={item.availability?.until ?? ''}
+                className="px-2 py-1 text-sm border border-gray-300 rounded"
+              />
+            </div>
             <input
               type="text"
-              defaultValue={item.onlyDuring || ''}
-              placeholder="e.g., 9-5 (MO-FR); 10-3 (SA-SU) PST"
+              name="availableDates"
+              defaultValue={item.availability?.dates?.join(', ') ?? ''}
+              placeholder="Only on these days, e.g., 2026-07-04, 2026-07-05"
+              className="w-full px-2 py-1 text-sm border border-gray-300 rounded mb-2"
+            />
+            <input
+              type="text"
+              name="exceptDates"
+              defaultValue={item.availability?.except?.join(', ') ?? ''}
+              placeholder="Closed on these days, e.g., 2026-12-25, 2026-12-26"
               className="w-full px-2 py-1 text-sm border border-gray-300 rounded"
             />
           </div>
-          <div className="text-xs text-gray-500 bg-gray-50 p-2 rounded mb-2">
-            <p className="font-semibold mb-1">Format:</p>
-            <code>time-range (days) timezone</code>
-            <ul className="list-disc list-inside mt-1 ml-2 space-y-1">
-              <li>Time: 9-5, 10:30-18:00, 11am-8pm, 9-18:30</li>
-              <li>Days: MO, TU, WE, TH, FR, SA, SU (can use ranges like MO-FR)</li>
-              <li>Multiple ranges: separate with semicolons, e.g., 9-5 (MO-FR); 10-3 (SA-SU)</li>
-              <li>Timezone: optional 3-4 letter code, e.g., EST, PST, UTC</li>
-            </ul>
-            <p className="mt-1">Example: 9am-5:30pm (MO-FR); 11-3 (SA) EST</p>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={(e) => {
+                const panel = e.currentTarget.closest('[data-schedule-editor]') as HTMLElement;
+                const field = (name: string) => (panel.querySelector(`input[name="${name}"]`) as HTMLInputElement).value.trim();
+                const dateList = (name: string) => field(name).split(/[\s,]+/).filter(Boolean);
+                
+                const availability: Availability = {
+                  ...(field('availableFrom') && { from: field('availableFrom') }),
+                  ...(field('availableUntil') && { until: field('availableUntil') }),
+                  ...(dateList('availableDates').length > 0 && { dates: dateList('availableDates') }),
+                  ...(dateList('exceptDates').length > 0 && { except: dateList('exceptDates') })
+                };
+                onUpdateSchedule(
+                  index,
+                  field('onlyDuring') || undefined,
+                  Object.keys(availability).length > 0 ? availability : undefined
+                );
+              }}
+              className="text-sm bg-green-500 hover:bg-green-600 text-white font-medium py-1 px-2 rounded"
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={onCancelEdit}
+              className="text-sm bg-gray-300 hover:bg-gray-400 text-gray-800 font-medium py-1 px-2 rounded"
+            >
+              Cancel
+            </button>
           </div>
+        </div>
+      )}
+      
+      {/* Unlock radius editor */}
+      {editingState?.index === index && editingState?.type === 'radius' && (
+        <div className="p-3 bg-gray-100 border-b border-gray-200">
+          <label className="block text-sm font-medium mb-1">
+            Unlock radius in meters (leave empty to use the placelist default)
+          </label>
           <div className="flex gap-2">
+            <input
+              type="number"
+              min="1"
+              step="any"
+              defaultValue={item.radius ?? ''}
+              placeholder="e.g., 100 for a park, 10 for a doorway"
+              className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded"
+            />
             <button
               type="button"
               onClick={(e) => {
-                const input = e.currentTarget.parentElement?.previousElementSibling?.previousElementSibling?.querySelector('input') as HTMLInputElement;
-                const schedule = input.value.trim();
-                onUpdateSchedule(index, schedule || undefined);
+                const input = e.currentTarget.previousElementSibling as HTMLInputElement;
+                const radius = Number(input.value);
+                onUpdateRadius(index, input.value && radius > 0 ? radius : undefined);
               }}
               className="text-sm bg-green-500 hover:bg-green-600 text-white font-medium py-1 px-2 rounded"
             >
@@ -521,11 +1057,38 @@ const PlacelistEntry = ({
         </div>
       )}
       
+      {/* Title, clue and arrival text editor */}
+      {editingState?.index === index && editingState?.type === 'story' && (
+        <StoryEditor
+          item={item}
+          onSave={(story) => onUpdateStory(index, story)}
+          onCancel={onCancelEdit}
+        />
+      )}
+      
+      {/* Narrative text the player will see */}
+      {(item.clue || item.arrivalText) && (
+        <div className="p-3 border-b border-gray-200 text-sm space-y-1">
+          {item.clue && (
+            <p>
+              <span className="font-medium text-gray-700">Clue: </span>
+              <span className="text-gray-600 whitespace-pre-line">{item.clue}</span>
+            </p>
+          )}
+          {item.arrivalText && (
+            <p>
+              <span className="font-medium text-gray-700">On arrival: </span>
+              <span className="text-gray-600 whitespace-pre-line">{item.arrivalText}</span>
+            </p>
+          )}
+        </div>
+      )}
+      
       {/* Map preview - only show if location is set */}
       {(item.location.lat !== 0 || item.location.lng !== 0) && (
         <div className="border-b border-gray-200">
           <img 
-            src={getGoogleStaticMapUrl(item.location.lat, item.location.lng, 14, 600, 300)} 
+            src={getGoogleStaticMapUrl(item.location.lat, item.location.lng, 14, 600, 300, item.area)} 
             alt={`Map location ${index + 1}`}
             className="w-full h-40 object-cover"
           />
@@ -535,6 +1098,24 @@ const PlacelistEntry = ({
               <span className="text-blue-700">{item.onlyDuring}</span>
             </div>
           )}
+          {item.availability && (
+            <div className="bg-blue-50 p-2 text-sm border-t border-blue-100">
+              <span className="font-medium text-blue-800">Available: </span>
+              <span className="text-blue-700">{describeAvailability(item.availability)}</span>
+            </div>
+          )}
+          {item.area && (
+            <div className="bg-blue-50 p-2 text-sm border-t border-blue-100">
+              <span className="font-medium text-blue-800">Unlock area: </span>
+              <span className="text-blue-700">players unlock this stop inside the outlined area ({item.area.length} points)</span>
+            </div>
+          )}
+          {item.radius !== undefined && !item.area && (
+            <div className="bg-blue-50 p-2 text-sm border-t border-blue-100">
+              <span className="font-medium text-blue-800">Unlocks within: </span>
+              <span className="text-blue-700">{item.radius} m</span>
+            </div>
+          )}
         </div>
       )}
       
@@ -694,10 +1275,222 @@ const NewEntryForm = ({
   );
 };
 
+// Review step for stops imported from a KML/KMZ file, shown before they are added
+const ImportReview = ({
+  placemarks,
+  onConfirm,
+  onCancel
+}: {
+  placemarks: ImportedPlacemark[];
+  onConfirm: (items: PlacelistItem[]) => void;
+  onCancel: () => void;
+}) => {
+  // Placemarks without a Spotify link start unchecked until the author adds one
+  const [selected, setSelected] = useState<boolean[]>(() => placemarks.map(p => Boolean(p.spotifyUrl)));
+  const [spotifyUrls, setSpotifyUrls] = useState<string[]>(() => placemarks.map(p => p.spotifyUrl || ''));
+  
+  const readyCount = placemarks.filter((_, i) => selected[i] && spotifyUrls[i].trim()).length;
+  
+  const confirmImport = () => {
+    const items = placemarks.flatMap((placemark, i) => {
+      const spotifyUrl = spotifyUrls[i].trim();
+      if (!selected[i] || !spotifyUrl) return [];
+      
+      const item: PlacelistItem = {
+        location: placemark.location,
+        spotifyUrl,
+        trackId: extractSpotifyTrackId(spotifyUrl),
+        ...(placemark.title && { title: placemark.title })
+      };
+      return [item];
+    });
+    
+    onConfirm(items);
+  };
+  
+  return (
+    <div className="mt-6 p-4 border border-blue-200 rounded-lg bg-blue-50">
+      <h3 className="text-lg font-medium mb-1">Review Imported Stops</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Found {placemarks.length} {placemarks.length === 1 ? "placemark" : "placemarks"}. 
+        Choose which ones to add and fill in any missing Spotify links.
+      </p>
+      
+      <ul className="space-y-3 mb-4">
+        {placemarks.map((placemark, i) => (
+          <li key={i} className="p-3 bg-white rounded border border-gray-200">
+            <label className="flex items-start gap-2">
+              <input
+                type="checkbox"
+                checked={selected[i]}
+                onChange={(e) => setSelected(selected.map((value, j) => j === i ? e.target.checked : value))}
+                className="mt-1"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium">{placemark.title || `Placemark ${i + 1}`}</div>
+                <div className="text-xs font-mono text-gray-500">
+                  {placemark.location.lat.toFixed(6)}, {placemark.location.lng.toFixed(6)}
+                </div>
+                {placemark.description && (
+                  <div className="text-xs text-gray-500 mt-1 line-clamp-2">{placemark.description}</div>
+                )}
+              </div>
+            </label>
+            <input
+              type="text"
+              value={spotifyUrls[i]}
+              onChange={(e) => setSpotifyUrls(spotifyUrls.map((value, j) => j === i ? e.target.value : value))}
+              placeholder="https://open.spotify.com/track/..."
+              className={`mt-2 w-full px-2 py-1 text-sm border rounded ${
+                selected[i] && !spotifyUrls[i].trim() ? 'border-red-300' : 'border-gray-300'
+              }`}
+            />
+            {!placemark.spotifyUrl && (
+              <p className="text-xs text-orange-600 mt-1">No Spotify link found in this placemark</p>
+            )}
+          </li>
+        ))}
+      </ul>
+      
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-1 px-3 rounded"
+        >
+          Discard
+        </button>
+        <button
+          type="button"
+          onClick={confirmImport}
+          disabled={readyCount === 0}
+          className="text-sm bg-green-500 hover:bg-green-600 text-white font-medium py-1 px-3 rounded disabled:opacity-50"
+        >
+          Add {readyCount} {readyCount === 1 ? "Stop" : "Stops"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Labels for the CSV mapping step; the first three are required
+const CSV_FIELDS: Array<{ field: CsvField; label: string; required: boolean }> = [
+  { field: 'lat', label: 'Latitude', required: true },
+  { field: 'lng', label: 'Longitude', required: true },
+  { field: 'spotifyUrl', label: 'Spotify URL', required: true },
+  { field: 'onlyDuring', label: 'Opening hours', required: false },
+  { field: 'title', label: 'Title', required: false }
+];
+
+// Column mapping wizard for CSV imports
+const CsvImportWizard = ({
+  rows,
+  onConfirm,
+  onCancel
+}: {
+  rows: string[][];
+  onConfirm: (items: PlacelistItem[]) => void;
+  onCancel: () => void;
+}) => {
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => guessCsvColumnMapping(rows[0] || []));
+  
+  const columnCount = Math.max(...rows.map(row => row.length));
+  const columnLabels = Array.from({ length: columnCount }, (_, i) =>
+    hasHeader && rows[0][i]?.trim() ? rows[0][i].trim() : `Column ${i + 1}`
+  );
+  const dataRows = hasHeader ? rows.slice(1) : rows;
+  const isMappingComplete = CSV_FIELDS.every(({ field, required }) => !required || mapping[field] !== null);
+  
+  // Validate every row against the current mapping (row numbers match the spreadsheet)
+  const result = useMemo(
+    () => isMappingComplete ? mapCsvRows(dataRows, mapping, hasHeader ? 2 : 1) : null,
+    [rows, mapping, hasHeader, isMappingComplete]
+  );
+  
+  return (
+    <div className="mt-6 p-4 border border-blue-200 rounded-lg bg-blue-50">
+      <h3 className="text-lg font-medium mb-1">Import CSV</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Choose which column holds each field. Rows that don't pass validation are skipped.
+      </p>
+      
+      <label className="flex items-center gap-2 text-sm mb-4">
+        <input
+          type="checkbox"
+          checked={hasHeader}
+          onChange={(e) => setHasHeader(e.target.checked)}
+        />
+        First row is a header
+      </label>
+      
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+        {CSV_FIELDS.map(({ field, label, required }) => (
+          <label key={field} className="block text-sm">
+            <span className="font-medium">{label}{required ? '' : ' (optional)'}</span>
+            <select
+              value={mapping[field] ?? ''}
+              onChange={(e) => setMapping({
+                ...mapping,
+                [field]: e.target.value === '' ? null : Number(e.target.value)
+              })}
+              className="mt-1 w-full px-2 py-1 border border-gray-300 rounded bg-white"
+            >
+              <option value="">{required ? 'Choose a column' : 'Not used'}</option>
+              {columnLabels.map((columnLabel, i) => (
+                <option key={i} value={i}>{columnLabel}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      
+      {result ? (
+        <div className="text-sm mb-4">
+          <p className="font-medium">
+            {result.items.length} of {dataRows.length} rows ready to import
+          </p>
+          {result.errors.length > 0 && (
+            <ul className="mt-2 max-h-40 overflow-y-auto space-y-1 text-red-600">
+              {result.errors.map(({ row, message }) => (
+                <li key={row}>{message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-orange-600 mb-4">
+          Map the latitude, longitude and Spotify URL columns to continue.
+        </p>
+      )}
+      
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="text-sm bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-1 px-3 rounded"
+        >
+          Discard
+        </button>
+        <button
+          type="button"
+          onClick={() => result && onConfirm(result.items)}
+          disabled={!result || result.items.length === 0}
+          className="text-sm bg-green-500 hover:bg-green-600 text-white font-medium py-1 px-3 rounded disabled:opacity-50"
+        >
+          Add {result?.items.length ?? 0} {result?.items.length === 1 ? "Stop" : "Stops"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
 export default function PlacelistEditor({
   formAction,
   defaultValues,
   errors,
+  diagnostics,
+  removedStops,
   isSubmitting,
   isEditing,
   cancelHref,
@@ -717,41 +1510,65 @@ export default function PlacelistEditor({
   // Main data states
   const [parsedItems, setParsedItems] = useState<PlacelistItem[]>([]);
   const [textAreaValue, setTextAreaValue] = useState(defaultValues.placelistText);
+  const [textFormat, setTextFormat] = useState<PlacelistFormat>(() => 
+    detectPlacelistFormat(defaultValues.placelistText)
+  );
+  
+  // State for KML/KMZ import, parsed by the route action and reviewed here before adding
+  const importFetcher = useFetcher<{ importedPlacemarks?: ImportedPlacemark[]; importError?: string }>();
+  const [pendingImport, setPendingImport] = useState<ImportedPlacemark[] | null>(null);
+  const [csvRows, setCsvRows] = useState<string[][] | null>(null);
+  const [csvError, setCsvError] = useState<string | null>(null);
 
-  // Parse the textarea content into structured items using the parser with fallback
   useEffect(() => {
-    if (!textAreaValue) {
-      setParsedItems([]);
-      return;
-    }
-    
-    try {
-      // Use the parser with fallback (YAML first, then traditional format)
-      const items = parsePlacelistText(textAreaValue);
-      setParsedItems(items);
-    } catch (err) {
-      console.error("Error parsing placelist text:", err);
+    if (importFetcher.state === 'idle' && importFetcher.data?.importedPlacemarks) {
+      setPendingImport(importFetcher.data.importedPlacemarks);
     }
+  }, [importFetcher.state, importFetcher.data]);
+
+  // Problems found in the text, starting with any the server reported
+  const [parseDiagnostics, setParseDiagnostics] = useState<ParseDiagnostic[]>(diagnostics ?? []);
+  const hasErrors = parseDiagnostics.some(diagnostic => diagnostic.severity === 'error');
+
+  // Parse the textarea content into structured items, collecting errors and warnings
+  useEffect(() => {
+    const result = parsePlacelistText(textAreaValue);
+    setParsedItems(result.items);
+    setParseDiagnostics(result.diagnostics);
   }, [textAreaValue]);
 
   // Function to update the text representation based on parsedItems
-  const updateTextFromParsedItems = (items: PlacelistItem[]) => {
-    // Format items as YAML
-    const newText = formatAsYaml(items);
-    setTextAreaValue(newText);
+  const updateTextFromParsedItems = (items: PlacelistItem[], edit?: PlacelistEdit) => {
+    // Patch YAML in place so the author's comments and extra fields survive; every item
+    // must have parsed for the edit's indexes to line up with the text
+    const patchedText = textFormat === 'yaml' && edit && !hasErrors
+      ? patchYamlItems(textAreaValue, edit)
+      : null;
+    
+    // Otherwise regenerate the text in whichever format the author chose
+    setTextAreaValue(patchedText ?? formatPlacelistItems(items, textFormat));
+  };
+
+  // Function to convert the text tab to a different format
+  const changeTextFormat = (format: PlacelistFormat) => {
+    setTextFormat(format);
+    if (parsedItems.length > 0) {
+      setTextAreaValue(formatPlacelistItems(parsedItems, format));
+    }
   };
 
   // Function to handle adding or updating a location from map selection for a specific entry
   const handleEntryLocationSelect = (index: number, lat: number, lng: number) => {
-    // Update existing entry
+    // Update existing entry; a point replaces any unlock area
+    const { area, ...rest } = parsedItems[index];
     const updatedItems = [...parsedItems];
     updatedItems[index] = {
-      ...updatedItems[index],
+      ...rest,
       location: { lat, lng }
     };
     
     setParsedItems(updatedItems);
-    updateTextFromParsedItems(updatedItems);
+    updateTextFromParsedItems(updatedItems, { type: 'update', index, item: updatedItems[index] });
     setEditingState(null);
   };
 
@@ -766,7 +1583,7 @@ export default function PlacelistEditor({
     
     const updatedItems = [...parsedItems, newItem];
     setParsedItems(updatedItems);
-    updateTextFromParsedItems(updatedItems);
+    updateTextFromParsedItems(updatedItems, { type: 'add', items: [newItem] });
     
     // Reset form state
     setShowNewEntryForm(false);
@@ -804,15 +1621,16 @@ export default function PlacelistEditor({
   // Function to add current location to an entry
   const addCurrentLocationToEntry = (index: number) => {
     getCurrentLocation((lat, lng) => {
-      // Update existing entry
+      // Update existing entry; a point replaces any unlock area
+      const { area, ...rest } = parsedItems[index];
       const updatedItems = [...parsedItems];
       updatedItems[index] = {
-        ...updatedItems[index],
+        ...rest,
         location: { lat, lng }
       };
       
       setParsedItems(updatedItems);
-      updateTextFromParsedItems(updatedItems);
+      updateTextFromParsedItems(updatedItems, { type: 'update', index, item: updatedItems[index] });
       setEditingState(null);
     });
   };
@@ -829,7 +1647,7 @@ export default function PlacelistEditor({
       
       const updatedItems = [...parsedItems, newItem];
       setParsedItems(updatedItems);
-      updateTextFromParsedItems(updatedItems);
+      updateTextFromParsedItems(updatedItems, { type: 'add', items: [newItem] });
       
       // Reset new entry form
       setShowNewEntryForm(false);
@@ -838,7 +1656,7 @@ export default function PlacelistEditor({
   };
 
   // Function to start editing an entry
-  const startEditingEntry = (index: number, type: 'location' | 'spotify' | 'schedule') => {
+  const startEditingEntry = (index: number, type: NonNullable<EditingState['type']>) => {
     setEditingState({ index, type });
   };
   
@@ -854,7 +1672,7 @@ export default function PlacelistEditor({
     
     const updatedItems = [...parsedItems, newItem];
     setParsedItems(updatedItems);
-    updateTextFromParsedItems(updatedItems);
+    updateTextFromParsedItems(updatedItems, { type: 'add', items: [newItem] });
     
     // Reset new entry form
     setShowNewEntryForm(false);
@@ -871,35 +1689,112 @@ export default function PlacelistEditor({
     };
     
     setParsedItems(updatedItems);
-    updateTextFromParsedItems(updatedItems);
+    updateTextFromParsedItems(updatedItems, { type: 'update', index, item: updatedItems[index] });
     setEditingState(null);
   };
   
-  // Function to update schedule for an entry
-  const updateSchedule = (index: number, schedule: string | undefined) => {
+  // Function to update schedule and available dates for an entry
+  const updateSchedule = (index: number, schedule: string | undefined, availability: Availability | undefined) => {
     const updatedItems = [...parsedItems];
-    if (schedule) {
-      updatedItems[index] = {
-        ...updatedItems[index],
-        onlyDuring: schedule
-      };
-    } else {
-      // Remove the onlyDuring property if no schedule
-      const { onlyDuring, ...rest } = updatedItems[index];
-      updatedItems[index] = rest;
-    }
+    // Drop the old values, so clearing a field removes it
+    const { onlyDuring, availability: _availability, ...rest } = updatedItems[index];
+    updatedItems[index] = {
+      ...rest,
+      ...(schedule && { onlyDuring: schedule }),
+      ...(availability && { availability })
+    };
+    
+    setParsedItems(updatedItems);
+    updateTextFromParsedItems(updatedItems, { type: 'update', index, item: updatedItems[index] });
+    setEditingState(null);
+  };
+  
+  // Function to update the title, clue and arrival text for an entry
+  const updateStory = (index: number, story: StoryFields) => {
+    const { title, clue, arrivalText, ...rest } = parsedItems[index];
+    const updatedItems = [...parsedItems];
+    updatedItems[index] = {
+      ...rest,
+      ...(story.title && { title: story.title }),
+      ...(story.clue && { clue: story.clue }),
+      ...(story.arrivalText && { arrivalText: story.arrivalText })
+    };
+    
+    setParsedItems(updatedItems);
+    updateTextFromParsedItems(updatedItems, { type: 'update', index, item: updatedItems[index] });
+    setEditingState(null);
+  };
+  
+  // Function to set an unlock area for an entry, with its marker in the middle
+  const handleEntryAreaSelect = (index: number, area: LatLng[]) => {
+    const updatedItems = [...parsedItems];
+    updatedItems[index] = {
+      ...updatedItems[index],
+      location: getPolygonCenter(area),
+      area
+    };
     
     setParsedItems(updatedItems);
-    updateTextFromParsedItems(updatedItems);
+    updateTextFromParsedItems(updatedItems, { type: 'update', index, item: updatedItems[index] });
     setEditingState(null);
   };
   
+  // Function to update the unlock radius for an entry
+  const updateRadius = (index: number, radius: number | undefined) => {
+    const { radius: _previous, ...rest } = parsedItems[index];
+    const updatedItems = [...parsedItems];
+    updatedItems[index] = radius !== undefined ? { ...rest, radius } : rest;
+    
+    setParsedItems(updatedItems);
+    updateTextFromParsedItems(updatedItems, { type: 'update', index, item: updatedItems[index] });
+    setEditingState(null);
+  };
+  
+  // Function to upload a KML/KMZ file for review
+  const uploadImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    
+    const formData = new FormData();
+    formData.append('intent', 'import-file');
+    formData.append('importFile', file);
+    importFetcher.submit(formData, { method: 'post', encType: 'multipart/form-data' });
+    
+    // Allow the same file to be chosen again
+    e.target.value = '';
+  };
+  
+  // Function to read a CSV file in the browser and open the mapping step
+  const openCsvFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = '';
+    
+    const rows = parseCsv(await file.text());
+    if (rows.length === 0) {
+      setCsvError("The CSV file is empty");
+      return;
+    }
+    
+    setCsvError(null);
+    setCsvRows(rows);
+  };
+  
+  // Function to add the reviewed imported stops
+  const addImportedItems = (items: PlacelistItem[]) => {
+    const updatedItems = [...parsedItems, ...items];
+    setParsedItems(updatedItems);
+    updateTextFromParsedItems(updatedItems, { type: 'add', items });
+    setPendingImport(null);
+    setCsvRows(null);
+  };
+  
   // Function to remove an entry
   const removeEntry = (index: number) => {
     const updatedItems = [...parsedItems];
     updatedItems.splice(index, 1);
     setParsedItems(updatedItems);
-    updateTextFromParsedItems(updatedItems);
+    updateTextFromParsedItems(updatedItems, { type: 'remove', index });
   };
   
   // Handle drag end event for reordering
@@ -912,7 +1807,7 @@ export default function PlacelistEditor({
       
       const newItems = arrayMove(parsedItems, oldIndex, newIndex);
       setParsedItems(newItems);
-      updateTextFromParsedItems(newItems);
+      updateTextFromParsedItems(newItems, { type: 'move', from: oldIndex, to: newIndex });
     }
   };
   
@@ -963,6 +1858,33 @@ export default function PlacelistEditor({
         </div>
       </div>
 
+      {removedStops && removedStops.length > 0 && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-900">
+          <p className="font-medium">These stops have already been unlocked by players:</p>
+          <ul className="list-disc list-inside my-2">
+            {removedStops.map((stop, i) => (
+              <li key={i}>
+                {stop.title} ({stop.sessions} {stop.sessions === 1 ? "player" : "players"})
+              </li>
+            ))}
+          </ul>
+          <p className="mb-3">
+            Removing them takes them out of those players' progress. Stops you moved or changed
+            stay unlocked.
+          </p>
+          <button
+            form="placelistForm"
+            type="submit"
+            name="confirmRemovals"
+            value="yes"
+            disabled={isSubmitting}
+            className="bg-yellow-500 hover:bg-yellow-600 text-white font-medium py-2 px-4 rounded-lg disabled:opacity-50"
+          >
+            Remove Them and Save
+          </button>
+        </div>
+      )}
+
       <Form id="placelistForm" action={formAction} method="post" className="space-y-6">
         <div>
           <label htmlFor="name" className="block text-sm font-medium mb-2">
@@ -992,6 +1914,95 @@ export default function PlacelistEditor({
           />
         </div>
 
+        <div>
+          <label htmlFor="defaultRadius" className="block text-sm font-medium mb-2">
+            Unlock Radius in Meters (Optional)
+          </label>
+          <input
+            type="number"
+            id="defaultRadius"
+            name="defaultRadius"
+            min="1"
+            step="any"
+            defaultValue={defaultValues.defaultRadius}
+            placeholder={String(DEFAULT_UNLOCK_RADIUS)}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-green-500 focus:border-green-500"
+          />
+          <p className="text-gray-500 text-xs mt-1">
+            How close players need to get to unlock a stop. Individual stops can override this.
+          </p>
+          {errors?.defaultRadius && (
+            <p className="text-red-500 text-sm mt-1">{errors.defaultRadius}</p>
+          )}
+        </div>
+
+        <div>
+          <span className="block text-sm font-medium mb-2">Active Dates (Optional)</span>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="date"
+              id="activeFrom"
+              name="activeFrom"
+              aria-label="Active from"
+              defaultValue={defaultValues.activeFrom}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-green-500 focus:border-green-500"
+            />
+            <span className="text-gray-500">to</span>
+            <input
+              type="date"
+              id="activeUntil"
+              name="activeUntil"
+              aria-label="Active until"
+              defaultValue={defaultValues.activeUntil}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-green-500 focus:border-green-500"
+            />
+          </div>
+          <p className="text-gray-500 text-xs mt-1">
+            For seasonal or one-off tours: players can only unlock stops between these dates.
+          </p>
+          {errors?.activeUntil && (
+            <p className="text-red-500 text-sm mt-1">{errors.activeUntil}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="playOrder" className="block text-sm font-medium mb-2">
+            Stop Order
+          </label>
+          <select
+            id="playOrder"
+            name="playOrder"
+            defaultValue={defaultValues.playOrder}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-green-500 focus:border-green-500"
+          >
+            <option value="sequential">In the order listed</option>
+            <option value="any">In any order</option>
+          </select>
+          <p className="text-gray-500 text-xs mt-1">
+            In any order, players can unlock whichever stop they reach first, like a scavenger hunt.
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="spoofingStrictness" className="block text-sm font-medium mb-2">
+            Faked Locations
+          </label>
+          <select
+            id="spoofingStrictness"
+            name="spoofingStrictness"
+            defaultValue={defaultValues.spoofingStrictness}
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-green-500 focus:border-green-500"
+          >
+            {SPOOFING_STRICTNESS_LEVELS.map(level => (
+              <option key={level.value} value={level.value}>{level.label}</option>
+            ))}
+          </select>
+          <p className="text-gray-500 text-xs mt-1">
+            What to do when a player's GPS looks faked, such as jumping across town in seconds.
+            Flagged sessions are listed on the placelist's page.
+          </p>
+        </div>
+
         {/* Tab navigation */}
         <div className="border-b border-gray-200">
           <nav className="-mb-px flex">
@@ -1032,49 +2043,118 @@ export default function PlacelistEditor({
           {/* Text Mode Tab Content */}
           {activeTab === 'text' && (
             <div>
+              <div className="flex items-center gap-2 mb-3">
+                <label htmlFor="textFormat" className="text-sm font-medium">
+                  Format
+                </label>
+                <select
+                  id="textFormat"
+                  value={textFormat}
+                  onChange={(e) => changeTextFormat(e.target.value as PlacelistFormat)}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded"
+                >
+                  <option value="yaml">YAML</option>
+                  <option value="geojson">GeoJSON</option>
+                  <option value="gpx">GPX</option>
+                  <option value="traditional">Legacy lines (locations and tracks only)</option>
+                </select>
+              </div>
               <div className="mb-2 text-sm text-gray-600">
-                <p>Enter placelist data in YAML format:</p>
+                <p>
+                  Enter placelist data as a versioned YAML document (see the{" "}
+                  <a href="/schemas/placelist.schema.json" className="text-green-700 underline">JSON Schema</a>):
+                </p>
                 <pre className="mt-1 ml-4 p-2 bg-gray-100 rounded text-xs">
-- location:
-    lat: 37.7749
-    lng: -122.4194
-  spotifyUrl: https://open.spotify.com/track/4cOdK2wGLETKBW3PvgPWqT
-  onlyDuring: 9am-5pm (MO-FR) PST
-- location:
-    lat: 37.7833
-    lng: -122.4167
-  spotifyUrl: https://open.spotify.com/track/0GswOA5NnzbGuC7WWjmCck
+version: 2
+items:
+  - location:
+      lat: 37.7749
+      lng: -122.4194
+    spotifyUrl: https://open.spotify.com/track/4cOdK2wGLETKBW3PvgPWqT
+    onlyDuring: 9am-5pm (MO-FR) PST
+    title: Ferry Building
+    clue: Find the clock tower where the boats come in
+    radius: 40
+    arrivalText: You made it! Grab a coffee and look out over the bay.
+  - area: # players unlock anywhere inside this outline
+      - [37.8080, -122.4177]
+      - [37.8080, -122.4150]
+      - [37.8065, -122.4150]
+      - [37.8065, -122.4177]
+    spotifyUrl: https://open.spotify.com/track/7ouMYWpwJ422jRcDASZB7P
+    availability: # summer only, and closed on the 4th of July
+      from: 2026-06-01
+      until: 2026-08-31
+      except: [2026-07-04]
+  - location:
+      lat: 37.7833
+      lng: -122.4167
+    spotifyUrl: https://open.spotify.com/track/0GswOA5NnzbGuC7WWjmCck
                 </pre>
+                <p className="mt-2">A bare list of items without the header is read as a version 1 document.</p>
                 <p className="mt-2">Or use the legacy format of alternating lines:</p>
                 <ol className="list-decimal list-inside mt-1 ml-4 space-y-1">
                   <li>Latitude,Longitude (e.g., "37.7749,-122.4194")</li>
                   <li>Spotify link (e.g., "https://open.spotify.com/track/...")</li>
                 </ol>
+                <p className="mt-2">
+                  You can also paste a GPX file: each <code>&lt;wpt&gt;</code> becomes a stop, with the Spotify
+                  link taken from its <code>&lt;link&gt;</code> or description.
+                </p>
+                <p className="mt-2">
+                  Or a GeoJSON FeatureCollection of Point features, with <code>spotifyUrl</code>, <code>onlyDuring</code>,{" "}
+                  <code>title</code>, <code>clue</code>, <code>arrivalText</code> and <code>radius</code> as feature properties.
+                </p>
               </div>
               <textarea
                 ref={textareaRef}
                 value={textAreaValue}
-                onChange={(e) => setTextAreaValue(e.target.value)}
+                onChange={(e) => {
+                  setTextAreaValue(e.target.value);
+                  setTextFormat(detectPlacelistFormat(e.target.value));
+                }}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-green-500 focus:border-green-500 h-72 font-mono"
-                placeholder="- location:
-    lat: 37.7749
-    lng: -122.4194
-  spotifyUrl: https://open.spotify.com/track/4cOdK2wGLETKBW3PvgPWqT
-  onlyDuring: 9am-5pm (MO-FR) PST
-- location:
-    lat: 37.7833
-    lng: -122.4167
-  spotifyUrl: https://open.spotify.com/track/0GswOA5NnzbGuC7WWjmCck"
+                placeholder="version: 2
+items:
+  - location:
+      lat: 37.7749
+      lng: -122.4194
+    spotifyUrl: https://open.spotify.com/track/4cOdK2wGLETKBW3PvgPWqT
+    onlyDuring: 9am-5pm (MO-FR) PST
+  - location:
+      lat: 37.7833
+      lng: -122.4167
+    spotifyUrl: https://open.spotify.com/track/0GswOA5NnzbGuC7WWjmCck"
               />
               {errors?.placelistText && (
                 <p className="text-red-500 text-sm mt-1">{errors.placelistText}</p>
               )}
+              <ParseDiagnosticsList diagnostics={parseDiagnostics} />
             </div>
           )}
           
           {/* Preview Mode Tab Content */}
           {activeTab === 'preview' && (
             <div>
+              {/* Problems in the text, which the visual editor can't show on the entries */}
+              {parseDiagnostics.length > 0 && (
+                <div className="mb-6">
+                  {errors?.placelistText && (
+                    <p className="text-red-500 text-sm">{errors.placelistText}</p>
+                  )}
+                  {hasErrors && (
+                    <p className="text-sm text-gray-600">
+                      Skipped stops are not shown below. Fix them in Text Mode first, as edits made
+                      here will rewrite the text without them.
+                    </p>
+                  )}
+                  <ParseDiagnosticsList diagnostics={parseDiagnostics} />
+                </div>
+              )}
+              
+              {/* How the stops link up, when they don't simply follow the list */}
+              {hasBranches(parsedItems) && <RouteGraph items={parsedItems} />}
+              
               {/* Placelist entries */}
               {parsedItems.length > 0 ? (
                 <DndContext 
@@ -1101,6 +2181,9 @@ export default function PlacelistEditor({
                             onCancelEdit={() => setEditingState(null)}
                             onUpdateSpotify={updateSpotifyUrl}
                             onUpdateSchedule={updateSchedule}
+                            onUpdateStory={updateStory}
+                            onUpdateRadius={updateRadius}
+                            onAreaSelect={handleEntryAreaSelect}
                           />
                         </SortableItem>
                       ))}
@@ -1113,6 +2196,24 @@ export default function PlacelistEditor({
                 </div>
               )}
               
+              {/* Review step for imported map files */}
+              {pendingImport && (
+                <ImportReview
+                  placemarks={pendingImport}
+                  onConfirm={addImportedItems}
+                  onCancel={() => setPendingImport(null)}
+                />
+              )}
+              
+              {/* Column mapping step for CSV files */}
+              {csvRows && (
+                <CsvImportWizard
+                  rows={csvRows}
+                  onConfirm={addImportedItems}
+                  onCancel={() => setCsvRows(null)}
+                />
+              )}
+              
               {/* New entry form at the bottom */}
               {showNewEntryForm ? (
                 <NewEntryForm
@@ -1147,8 +2248,33 @@ export default function PlacelistEditor({
                     </svg>
                     Add New Entry
                   </button>
+                  <label className="text-sm bg-purple-500 hover:bg-purple-600 text-white font-medium py-2 px-4 rounded flex items-center cursor-pointer ml-2">
+                    {importFetcher.state !== 'idle' ? "Importing..." : "Import KML/KMZ"}
+                    <input
+                      type="file"
+                      accept=".kml,.kmz"
+                      onChange={uploadImportFile}
+                      disabled={importFetcher.state !== 'idle'}
+                      className="hidden"
+                    />
+                  </label>
+                  <label className="text-sm bg-purple-500 hover:bg-purple-600 text-white font-medium py-2 px-4 rounded flex items-center cursor-pointer ml-2">
+                    Import CSV
+                    <input
+                      type="file"
+                      accept=".csv,.tsv,text/csv"
+                      onChange={openCsvFile}
+                      className="hidden"
+                    />
+                  </label>
                 </div>
               )}
+              {importFetcher.state === 'idle' && importFetcher.data?.importError && (
+                <p className="text-red-500 text-sm mt-2 text-center">{importFetcher.data.importError}</p>
+              )}
+              {csvError && (
+                <p className="text-red-500 text-sm mt-2 text-center">{csvError}</p>
+              )}
             </div>
           )}
         </div>
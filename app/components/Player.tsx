@@ -0,0 +1,899 @@
+import { useFetcher } from "react-router"
+import { useEffect, useState, useRef, type ReactNode } from "react"
+import { calculateBearing, getCompassDirection, getStopTarget, getUnlockRadius, type LatLng } from "../lib/utils"
+import { addFix, getStopTolerance, isSurelyAtStop, isWeakGps, smoothFixes, type Fix } from "../lib/gps"
+import { describeAvailability, formatNextOpening, type getWindowPhase } from "../lib/schedule"
+import {
+  applyUnlock,
+  checkUnlock,
+  chooseBranch,
+  getActiveWindow,
+  getAvailableStops,
+  getBranchChoice,
+  getStopScheduleStatus,
+  getUnlockedStops,
+  hasScheduleLimits,
+  isAnyOrder,
+  isBranching,
+  isSessionComplete,
+  type SessionProgress,
+  type UnlockRules
+} from "../lib/unlock"
+import { formatDuration, getUnlockTimeline, getWalkDuration, type UnlockTime } from "../lib/timings"
+import type { PlacelistItem } from "../lib/placelistParsers"
+
+// How often the player page sends the device's position on the way to a stop
+const LOCATION_REPORT_INTERVAL_MS = 30 * 1000
+
+export interface GeoPosition {
+  coords: {
+    latitude: number
+    longitude: number
+    accuracy: number
+  }
+  timestamp: number
+}
+
+/**
+ * Where the player's position comes from: the device's GPS, or a stand-in when simulating
+ */
+export interface PositionSource {
+  watchPosition(
+    onFix: (fix: GeoPosition) => void,
+    onError: (error: { message: string }) => void,
+    options?: PositionOptions
+  ): number
+  clearWatch(watchId: number): void
+}
+
+interface PlayerProps {
+  placelist: {
+    name: string
+    description?: string | null
+    items: unknown
+    defaultRadius?: number | null
+    activeFrom?: string | null
+    activeUntil?: string | null
+    playOrder?: string | null
+  }
+  progress: SessionProgress // Stops already unlocked
+  unlockTimes?: UnlockTime[] // When they were unlocked, for sessions that recorded it
+  windowPhase: ReturnType<typeof getWindowPhase>
+  // Replaces the device's GPS and clock so authors can try a tour from their desk.
+  // Unlocks are checked in the browser and nothing is sent to the server.
+  simulation?: {
+    positionSource: PositionSource
+    now: () => Date
+  }
+  actions?: ReactNode // Shown next to the title
+}
+
+export default function Player({ placelist, progress, unlockTimes = [], windowPhase, simulation, actions }: PlayerProps) {
+  const items = placelist.items as PlacelistItem[]
+
+  const [position, setPosition] = useState<GeoPosition | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [unlocked, setUnlocked] = useState<SessionProgress>(progress)
+  const [unlockLog, setUnlockLog] = useState<UnlockTime[]>(unlockTimes)
+  // When stops can be visited in any order, the one the player picked to head for
+  const [chosenStopId, setChosenStopId] = useState<string | null>(null)
+  const [distance, setDistance] = useState<number | null>(null)
+  const [bearing, setBearing] = useState<number | null>(null)
+  const [watching, setWatching] = useState(false)
+  const [unlocking, setUnlocking] = useState(false)
+  const [deviceOrientation, setDeviceOrientation] = useState<number | null>(null)
+  const [compassDirection, setCompassDirection] = useState<string>("N")
+  const [scheduleStatus, setScheduleStatus] = useState<{ 
+    open: boolean; 
+    nextOpenAt?: Date | null;
+    nextOpenIn?: number | null;
+    timeZone?: string;
+    comment?: string;
+  } | null>(null)
+
+  const watchId = useRef<number | null>(null)
+  const progressFetcher = useFetcher()
+  const choiceFetcher = useFetcher()
+  const reportFetcher = useFetcher()
+  const lastReportAt = useRef(0)
+  const recentFixes = useRef<Fix[]>([])
+
+  // The same rules the server checks each unlock against
+  const unlockRules: UnlockRules = {
+    items,
+    defaultRadius: placelist.defaultRadius,
+    activeFrom: placelist.activeFrom,
+    activeUntil: placelist.activeUntil,
+    playOrder: placelist.playOrder,
+  }
+  const activeWindow = getActiveWindow(unlockRules)
+  const anyOrder = isAnyOrder(unlockRules)
+  const branching = isBranching(unlockRules)
+
+  const unlockedStops = getUnlockedStops(unlockRules, unlocked)
+  const timeline = getUnlockTimeline(unlockRules, unlocked, unlockLog)
+  const walkDuration = getWalkDuration(timeline)
+  const availableStops = getAvailableStops(unlockRules, unlocked)
+  const lastUnlocked = unlockedStops[unlockedStops.length - 1]
+  // Where the route branches, the ways on the player has to pick from
+  const branchChoice = getBranchChoice(unlockRules, unlocked)
+
+  // The stop the compass points to: the next in line, or when any order goes, the one the
+  // player picked or else the nearest. Returns the number of items once there are none left.
+  function pickTarget(point: LatLng | null): number {
+    const chosen = availableStops.find(stop => stop.id === chosenStopId)
+    const nearest = point && anyOrder
+      ? availableStops.reduce<PlacelistItem | undefined>((best, stop) =>
+          !best || getStopTarget(point, stop).distance < getStopTarget(point, best).distance ? stop : best, undefined)
+      : availableStops[0]
+    const target = chosen ?? nearest
+
+    return target ? items.indexOf(target) : items.length
+  }
+
+  const currentItem = pickTarget(position && { lat: position.coords.latitude, lng: position.coords.longitude })
+
+  // Complete state
+  const isComplete = isSessionComplete(unlockRules, unlocked)
+  const hasTarget = currentItem < items.length
+
+  // How close the player needs to get to the current stop
+  const unlockRadius = hasTarget ? getUnlockRadius(items[currentItem], placelist.defaultRadius) : 0
+
+  // How far off the smoothed position might be, whether that's too far to rely on, and
+  // whether the player is at the stop all the same
+  const accuracy = position?.coords.accuracy ?? null
+  const weakGps = accuracy !== null && hasTarget && isWeakGps(accuracy, getStopTolerance(items[currentItem], placelist.defaultRadius))
+  const surelyThere = position !== null && hasTarget && isSurelyAtStop(
+    { lat: position.coords.latitude, lng: position.coords.longitude },
+    position.coords.accuracy,
+    items[currentItem],
+    placelist.defaultRadius
+  )
+
+  // Whether a stop can only be unlocked at certain times
+  function hasSchedule(item: PlacelistItem | undefined) {
+    return Boolean(item && hasScheduleLimits(item, unlockRules))
+  }
+
+  function getItemScheduleStatus(item: PlacelistItem) {
+    return getStopScheduleStatus(now(), item, unlockRules)
+  }
+
+  // The time a stop was unlocked, on the player's own clock. The server renders it in its time
+  // zone first, so the browser's version replaces it without a warning.
+  function formatUnlockTime(unlockedAt: Date) {
+    return (
+      <span suppressHydrationWarning>
+        {unlockedAt.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+      </span>
+    )
+  }
+
+  function now() {
+    return simulation ? simulation.now() : new Date()
+  }
+
+  function getPositionSource(): PositionSource | undefined {
+    return simulation ? simulation.positionSource : navigator.geolocation
+  }
+
+  // Request device orientation permission (for iOS)
+  async function requestOrientationPermission() {
+    // Check if DeviceOrientationEvent exists and has the requestPermission method (iOS 13+)
+    if (typeof (DeviceOrientationEvent as any).requestPermission === 'function') {
+      try {
+        // Request permission
+        const permissionState = await (DeviceOrientationEvent as any).requestPermission()
+        if (permissionState === 'granted') {
+          return true
+        } else {
+          console.warn("Device orientation permission denied")
+          return false
+        }
+      } catch (error) {
+        console.error("Error requesting device orientation permission:", error)
+        return false
+      }
+    } else {
+      // No permission needed for non-iOS or older iOS
+      return true
+    }
+  }
+
+  // Handles each new fix from the position source
+  function handleFix(fix: GeoPosition) {
+    // Steady the position over the last few fixes, so one bad fix can't throw it off
+    recentFixes.current = addFix(recentFixes.current, {
+      lat: fix.coords.latitude,
+      lng: fix.coords.longitude,
+      accuracy: fix.coords.accuracy,
+      timestamp: fix.timestamp
+    })
+    const smoothed = smoothFixes(recentFixes.current)!
+    const position: GeoPosition = {
+      coords: { latitude: smoothed.lat, longitude: smoothed.lng, accuracy: smoothed.accuracy },
+      timestamp: smoothed.timestamp
+    }
+
+    setPosition(position)
+    setError(null)
+
+    const targetIndex = pickTarget({ lat: smoothed.lat, lng: smoothed.lng })
+    if (targetIndex < items.length) {
+      // The server gets the raw fixes, as smoothing would hide signs of faked GPS
+      if (!simulation && fix.timestamp - lastReportAt.current >= LOCATION_REPORT_INTERVAL_MS) {
+        lastReportAt.current = fix.timestamp
+        reportFetcher.submit(
+          {
+            intent: "report-location",
+            lat: fix.coords.latitude,
+            lng: fix.coords.longitude,
+            accuracy: fix.coords.accuracy,
+            timestamp: fix.timestamp
+          },
+          { method: "post" }
+        )
+      }
+
+      // For area stops this is the nearest edge, and zero once inside
+      const { target, distance: dist } = getStopTarget(
+        { lat: position.coords.latitude, lng: position.coords.longitude },
+        items[targetIndex]
+      )
+      setDistance(dist)
+
+      const bear = calculateBearing(
+        position.coords.latitude,
+        position.coords.longitude,
+        target.lat,
+        target.lng
+      )
+      setBearing(bear)
+
+      // Only unlock on its own once the stop is in range however far off the position is
+      const inRange = isSurelyAtStop(
+        { lat: smoothed.lat, lng: smoothed.lng },
+        smoothed.accuracy,
+        items[targetIndex],
+        placelist.defaultRadius
+      )
+
+      // Always check schedule status for current item
+      const currentItemData = items[targetIndex];
+      
+      // Check if current location has schedule restrictions
+      if (hasSchedule(currentItemData)) {
+        try {
+          // Check the schedule status
+          const status = getItemScheduleStatus(currentItemData);
+          setScheduleStatus(status);
+          
+          // Only auto-unlock if within the unlock radius and the location is open
+          if (inRange && !unlocking && status.open) {
+            unlockNext(position, targetIndex);
+          }
+        } catch (err) {
+          console.error("Error checking schedule:", err);
+          // If there's an error with the schedule format, still allow unlocking
+          setScheduleStatus(null);
+          if (inRange && !unlocking) {
+            unlockNext(position, targetIndex);
+          }
+        }
+      } else {
+        // No schedule restrictions, so clear any previous status
+        setScheduleStatus(null);
+        
+        // Auto unlock if within the unlock radius
+        if (inRange && !unlocking) {
+          unlockNext(position, targetIndex);
+        }
+      }
+    }
+  }
+
+  // The watcher outlives the render that started it, so it goes through a ref to reach the
+  // current stop rather than the one that was current when watching began
+  const handleFixRef = useRef(handleFix)
+  handleFixRef.current = handleFix
+
+  // Start watching geolocation and device orientation
+  async function startWatching() {
+    const positionSource = getPositionSource()
+    if (!positionSource) {
+      setError("Geolocation is not supported by your browser")
+      return
+    }
+
+    setWatching(true)
+
+    // Start watching device orientation
+    if (window.DeviceOrientationEvent) {
+      // Request permission first (for iOS)
+      const permissionGranted = await requestOrientationPermission()
+
+      if (permissionGranted) {
+        const handleOrientation = (event: DeviceOrientationEvent) => {
+          // For iOS devices - alpha is relative to magnetic north
+          if ((event as any).webkitCompassHeading !== undefined) {
+            const heading = (event as any).webkitCompassHeading
+            setDeviceOrientation(heading)
+            setCompassDirection(getCompassDirection(heading))
+          }
+          // For Android devices - alpha is relative to arbitrary direction
+          else if (event.alpha !== null) {
+            const heading = 360 - event.alpha // Convert to clockwise rotation
+            setDeviceOrientation(heading)
+            setCompassDirection(getCompassDirection(heading))
+          }
+        }
+
+        // Store reference to the handler for cleanup
+        orientationHandlerRef.current = handleOrientation
+
+        window.addEventListener('deviceorientation', handleOrientation, true)
+      }
+    } else {
+      console.warn("Device orientation not supported by this browser")
+    }
+
+    // Start watching geolocation
+    watchId.current = positionSource.watchPosition(
+      (fix) => handleFixRef.current(fix),
+      (err) => {
+        console.error(err)
+        setError(`Error getting location: ${err.message}`)
+        setWatching(false)
+      },
+      {
+        enableHighAccuracy: true,
+        maximumAge: 0,
+        timeout: 5000
+      }
+    )
+  }
+
+  // Reference to orientation event handler
+  const orientationHandlerRef = useRef<((event: DeviceOrientationEvent) => void) | null>(null)
+
+  // Stop watching geolocation and device orientation
+  function stopWatching() {
+    // Clear geolocation watch
+    if (watchId.current !== null) {
+      getPositionSource()?.clearWatch(watchId.current)
+      watchId.current = null
+    }
+    recentFixes.current = []
+
+    // Remove device orientation event listener
+    if (orientationHandlerRef.current) {
+      window.removeEventListener('deviceorientation', orientationHandlerRef.current, true)
+      orientationHandlerRef.current = null
+    }
+
+    setWatching(false)
+  }
+
+  // Unlock a stop when the user is at the right location. The server checks the position
+  // too, so it goes along with the request.
+  function unlockNext(fix: GeoPosition | null = position, index: number = currentItem) {
+    const itemId = items[index]?.id
+    if (itemId && !unlocking && fix) {
+      if (simulation) {
+        // Nothing is saved when simulating, so run the server's checks here instead
+        const result = checkUnlock(unlockRules, unlocked, {
+          itemId,
+          position: { lat: fix.coords.latitude, lng: fix.coords.longitude },
+          timestamp: fix.timestamp
+        }, simulation.now())
+
+        if (!result.ok) {
+          setError(result.error)
+          return
+        }
+      } else {
+        setUnlocking(true)
+
+        progressFetcher.submit(
+          { 
+            intent: "update-progress",
+            itemId,
+            lat: fix.coords.latitude,
+            lng: fix.coords.longitude,
+            accuracy: fix.coords.accuracy,
+            timestamp: fix.timestamp
+          },
+          { method: "post" }
+        )
+      }
+
+      // Optimistically update the UI
+      const next = applyUnlock(unlockRules, unlocked, itemId)
+      setUnlocked(next)
+      setUnlockLog([...unlockLog, { itemId, unlockedAt: now() }])
+      setChosenStopId(null)
+
+      // Reset state for next location if there is one
+      if (!isSessionComplete(unlockRules, next)) {
+        setDistance(null)
+        setBearing(null)
+      }
+    }
+  }
+
+  // Go on along the way the player picked where the route branches
+  function chooseWay(itemId: string) {
+    const next = chooseBranch(unlockRules, unlocked, itemId)
+    if (!next) return
+
+    if (!simulation) {
+      choiceFetcher.submit({ intent: "choose-branch", itemId }, { method: "post" })
+    }
+
+    setUnlocked(next)
+    setError(null)
+  }
+
+  // Clean up the geolocation watcher and device orientation listener when the component unmounts
+  useEffect(() => {
+    return () => {
+      if (watchId.current !== null) {
+        getPositionSource()?.clearWatch(watchId.current)
+      }
+
+      if (orientationHandlerRef.current) {
+        window.removeEventListener('deviceorientation', orientationHandlerRef.current, true)
+      }
+    }
+  }, [])
+
+  // Reset unlocking state when the progress fetcher is done, and step back if the server
+  // turned the unlock down
+  useEffect(() => {
+    if (progressFetcher.state === "idle" && unlocking) {
+      setUnlocking(false)
+
+      const result = progressFetcher.data as { error?: string } | undefined
+      if (result?.error) {
+        setError(result.error)
+        setUnlocked(progress)
+        setUnlockLog(unlockTimes)
+      }
+    }
+  }, [progressFetcher.state, progressFetcher.data, unlocking, progress, unlockTimes])
+
+  // Step back to the choice if the server turned the way picked down
+  useEffect(() => {
+    const result = choiceFetcher.data as { error?: string } | undefined
+    if (choiceFetcher.state === "idle" && result?.error) {
+      setError(result.error)
+      setUnlocked(progress)
+    }
+  }, [choiceFetcher.state, choiceFetcher.data, progress])
+  
+  // Update schedule status every minute if we're at a location with schedule constraints
+  useEffect(() => {
+    if (!watching || distance === null || distance > unlockRadius || !hasSchedule(items[currentItem])) {
+      return; // No need to update if not at a scheduled location
+    }
+    
+    // Update schedule status immediately
+    const updateScheduleStatus = () => {
+      if (hasSchedule(items[currentItem])) {
+        const status = getItemScheduleStatus(items[currentItem]);
+        setScheduleStatus(status);
+      }
+    };
+    
+    // Set up interval to update every minute
+    const intervalId = setInterval(updateScheduleStatus, 60000);
+    
+    // Run once immediately
+    updateScheduleStatus();
+    
+    // Clean up on unmount
+    return () => clearInterval(intervalId);
+  }, [watching, distance, currentItem, items, unlockRadius])
+
+  return (
+    <div className="container mx-auto px-4 py-12 max-w-md">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-2">
+        <h1 className="text-2xl font-bold">{placelist.name}</h1>
+        
+        {actions && <div className="mt-2 sm:mt-0">{actions}</div>}
+      </div>
+      
+      {placelist.description && (
+        <p className="text-gray-700 mb-6">{placelist.description}</p>
+      )}
+
+      {isComplete ? (
+        <div className="text-center py-8 bg-green-50 rounded-lg border border-green-200 mb-8">
+          <h2 className="text-xl font-bold mb-4">Placelist Complete!</h2>
+          <p className="mb-4">
+            {branching
+              ? "You've reached the end of your route and unlocked every song along the way."
+              : "You've visited all the locations and unlocked all the songs."}
+          </p>
+          {walkDuration !== null && (
+            <p className="mb-4">
+              Your walk took {formatDuration(walkDuration)} from the first stop to the last.
+            </p>
+          )}
+          <div className="space-y-4">
+            <h3 className="font-semibold">Your Soundtrack</h3>
+            <ul className="space-y-3">
+              {timeline.map(({ item, unlockedAt, sincePrevious }, index) => (
+                <li key={item.id} className="p-3 bg-white rounded border border-gray-200">
+                  <div className="flex items-center">
+                    <span className="inline-block w-6 h-6 text-center bg-green-500 text-white rounded-full mr-2">
+                      {index + 1}
+                    </span>
+                    <div className="min-w-0">
+                      {item.title && <div className="font-medium">{item.title}</div>}
+                      <a
+                        href={item.spotifyUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-green-500 hover:underline"
+                      >
+                        {item.spotifyUrl.substring(0, 40)}...
+                      </a>
+                    </div>
+                  </div>
+                  {unlockedAt && (
+                    <div className="mt-2 text-xs text-gray-500 pl-8">
+                      Unlocked at {formatUnlockTime(unlockedAt)}
+                      {sincePrevious !== null && <>, {formatDuration(sincePrevious)} after the stop before</>}
+                    </div>
+                  )}
+                  {item.onlyDuring && (
+                    <div className="mt-2 text-xs text-gray-500 pl-8">
+                      <span className="font-medium">Only available during:</span> {item.onlyDuring}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      ) : (
+        <>
+          {/* Arrival text for the stop that was just unlocked */}
+          {lastUnlocked?.arrivalText && (
+            <div className="bg-green-50 rounded-lg border border-green-200 p-4 mb-6">
+              <h2 className="text-sm font-semibold text-green-800 mb-1">
+                {lastUnlocked.title || `Location ${items.indexOf(lastUnlocked) + 1}`} unlocked
+              </h2>
+              <p className="text-gray-700 whitespace-pre-line">{lastUnlocked.arrivalText}</p>
+            </div>
+          )}
+
+          {windowPhase !== "during" && activeWindow && (
+            <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg text-sm mb-6">
+              <span className="font-medium">
+                {windowPhase === "before" ? "This placelist hasn't started yet." : "This placelist has ended."}
+              </span>{" "}
+              It runs {describeAvailability(activeWindow)}.
+            </div>
+          )}
+
+          {branchChoice ? (
+            <div className="bg-white rounded-lg border border-gray-200 p-6 mb-8">
+              <h2 className="text-lg font-semibold mb-4">{branchChoice.prompt || "Which way next?"}</h2>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 p-3 rounded mb-4">
+                  {error}
+                </div>
+              )}
+
+              <div className="space-y-3">
+                {branchChoice.options.map(({ stop, label }) => (
+                  <button
+                    key={stop.id}
+                    onClick={() => chooseWay(stop.id!)}
+                    disabled={choiceFetcher.state !== "idle"}
+                    className="w-full text-left p-3 bg-green-50 hover:bg-green-100 rounded-lg border border-green-200 disabled:opacity-50"
+                  >
+                    <span className="font-medium">{label || stop.title || `Location ${items.indexOf(stop) + 1}`}</span>
+                    {label && stop.title && (
+                      <span className="block text-sm text-gray-500">{stop.title}</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="bg-white rounded-lg border border-gray-200 p-6 mb-8">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-semibold">
+                  {anyOrder ? (
+                    <>
+                      {items[currentItem].title || `Location ${currentItem + 1}`}
+                      <span className="block text-sm font-normal text-gray-500">
+                        {unlockedStops.length} of {items.length} found
+                      </span>
+                    </>
+                  ) : branching ? (
+                    <>
+                      {items[currentItem].title || `Location ${currentItem + 1}`}
+                      <span className="block text-sm font-normal text-gray-500">
+                        Stop {unlockedStops.length + 1} of your route
+                      </span>
+                    </>
+                  ) : items[currentItem].title ? (
+                    <>
+                      {items[currentItem].title}
+                      <span className="block text-sm font-normal text-gray-500">
+                        Location {currentItem + 1} of {items.length}
+                      </span>
+                    </>
+                  ) : (
+                    <>Location {currentItem + 1} of {items.length}</>
+                  )}
+                </h2>
+                {!watching ? (
+                  <button
+                    onClick={startWatching}
+                    className="bg-green-500 hover:bg-green-600 text-white text-sm font-medium py-1 px-3 rounded"
+                  >
+                    Start Compass
+                  </button>
+                ) : (
+                  <button
+                    onClick={stopWatching}
+                    className="bg-gray-500 hover:bg-gray-600 text-white text-sm font-medium py-1 px-3 rounded"
+                  >
+                    Stop Compass
+                  </button>
+                )}
+              </div>
+
+              {anyOrder && availableStops.length > 1 && (
+                <div className="mb-4">
+                  <label htmlFor="chosenStop" className="block text-sm font-medium mb-1">
+                    Heading for
+                  </label>
+                  <select
+                    id="chosenStop"
+                    value={chosenStopId ?? ""}
+                    onChange={e => setChosenStopId(e.target.value || null)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-green-500 focus:border-green-500"
+                  >
+                    <option value="">Whichever stop is nearest</option>
+                    {availableStops.map(stop => (
+                      <option key={stop.id} value={stop.id}>
+                        {stop.title || `Location ${items.indexOf(stop) + 1}`}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {items[currentItem].clue && (
+                <div className="bg-yellow-50 border border-yellow-200 text-yellow-900 p-3 rounded mb-4 text-sm">
+                  <span className="font-medium">Clue: </span>
+                  <span className="whitespace-pre-line">{items[currentItem].clue}</span>
+                </div>
+              )}
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 p-3 rounded mb-4">
+                  {error}
+                </div>
+              )}
+
+              {watching && !error && (
+                <div className="text-center">
+                  {distance !== null ? (
+                    <>
+                      <div
+                        className="mx-auto mb-4 w-32 h-32 rounded-full bg-gray-100 relative border-4 border-gray-300 flex items-center justify-center"
+                        style={{ boxShadow: "0 0 10px rgba(0,0,0,0.1)" }}
+                      >
+
+                        {/* Accuracy ring: fills the compass when the position is as vague as the stop is far */}
+                        {accuracy !== null && (
+                          <div
+                            className={`absolute rounded-full border ${weakGps ? "bg-yellow-400/20 border-yellow-500/50" : "bg-green-500/15 border-green-500/40"}`}
+                            style={{
+                              width: `${Math.max(12, (100 * accuracy) / (distance + accuracy))}%`,
+                              height: `${Math.max(12, (100 * accuracy) / (distance + accuracy))}%`
+                            }}
+                          />
+                        )}
+
+                        {/* Heading indicator arrow */}
+                        {bearing !== null && (
+                          <div
+                            className="absolute w-2 h-16 bg-green-500 rounded"
+                            style={{
+                              transformOrigin: "bottom center",
+                              transform: deviceOrientation !== null
+                                ? `rotate(${bearing - deviceOrientation}deg) translateX(-50%)`
+                                : `rotate(${bearing}deg) translateX(-50%)`,
+                              bottom: "50%",
+                              left: "50%"
+                            }}
+                          />
+                        )}
+
+                        {/* Center dot */}
+                        <div className="w-4 h-4 rounded-full bg-green-500 absolute" />
+
+                        {/* Current direction */}
+                        {deviceOrientation !== null && (
+                          <div className="absolute top-8 text-lg font-bold text-green-600">
+                            {compassDirection}
+                          </div>
+                        )}
+                      </div>
+
+                      <div className="text-3xl font-bold mb-1">
+                        {distance < 1000
+                          ? `${Math.round(distance)}m`
+                          : `${(distance / 1000).toFixed(1)}km`}
+                      </div>
+
+                      {accuracy !== null && (
+                        <div className={`text-xs mb-1 ${weakGps ? "text-yellow-700" : "text-gray-400"}`}>
+                          GPS accurate to ±{Math.round(accuracy)}m
+                        </div>
+                      )}
+
+                      <div className="text-sm text-gray-500 mb-4">
+                        {distance > unlockRadius
+                          ? "Keep walking in the direction of the arrow"
+                          : !surelyThere
+                            ? "You're close! Waiting for a more precise GPS fix"
+                            : "You've arrived!"}
+                      </div>
+
+                      {weakGps && (
+                        <div className="p-3 bg-yellow-50 border border-yellow-200 text-yellow-900 rounded-lg text-sm mb-4">
+                          <span className="font-medium">Weak GPS signal.</span> Your position could be off
+                          by {Math.round(accuracy!)}m, so this stop won't unlock by itself until it improves.
+                          Moving into the open, away from tall buildings, usually helps.
+                        </div>
+                      )}
+
+                      {hasSchedule(items[currentItem]) && scheduleStatus ? (
+                        <div className="mb-4">
+                          {scheduleStatus.open ? (
+                            <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm mb-4">
+                              <span className="inline-block w-4 h-4 rounded-full bg-green-500 mr-2"></span>
+                              <span className="font-medium">Location is open now</span>
+                              <div className="mt-1 text-green-700">
+                                You can unlock this song!
+                              </div>
+                              {items[currentItem].onlyDuring && (
+                                <div className="mt-1 text-green-600">
+                                  Open hours: {items[currentItem].onlyDuring}
+                                </div>
+                              )}
+                            </div>
+                          ) : (
+                            <div className="p-3 bg-orange-50 border border-orange-200 rounded-lg text-sm mb-4">
+                              <span className="inline-block w-4 h-4 rounded-full bg-orange-500 mr-2"></span>
+                              <span className="font-medium">This song can only be unlocked during open hours</span>
+                              {items[currentItem].onlyDuring && (
+                                <div className="mt-2 text-orange-700">
+                                  <span className="font-medium">Open hours:</span> {items[currentItem].onlyDuring}
+                                </div>
+                              )}
+                              {items[currentItem].availability && (
+                                <div className="mt-2 text-orange-700">
+                                  <span className="font-medium">Dates:</span> {describeAvailability(items[currentItem].availability!)}
+                                </div>
+                              )}
+                              {scheduleStatus.nextOpenAt && scheduleStatus.timeZone ? (
+                                <div className="mt-2 text-orange-700">
+                                  Opens {formatNextOpening(scheduleStatus.nextOpenAt, scheduleStatus.timeZone)} local time
+                                  {scheduleStatus.nextOpenIn && scheduleStatus.nextOpenIn < 24 * 60
+                                    ? ` (in about ${Math.ceil(scheduleStatus.nextOpenIn / 60)} hours)`
+                                    : ""}
+                                </div>
+                              ) : (
+                                <div className="mt-2 text-orange-700">
+                                  This location has no upcoming open hours
+                                </div>
+                              )}
+                              {scheduleStatus.comment && (
+                                <div className="mt-2 text-orange-700 italic">{scheduleStatus.comment}</div>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      ) : null}
+                    
+                      {distance <= unlockRadius && (
+                        <>
+                          {hasSchedule(items[currentItem]) && scheduleStatus ? 
+                            (scheduleStatus.open === false ? (
+                              <div className="text-sm text-orange-700 mb-4 text-center font-medium">
+                                You're at the right spot, but you need to come back during open hours!
+                              </div>
+                            ) : null) 
+                          : null}
+                        
+                          <button
+                            onClick={() => unlockNext()}
+                            disabled={unlocking || (hasSchedule(items[currentItem]) && scheduleStatus ? scheduleStatus.open === false : false)}
+                            className="bg-green-500 hover:bg-green-600 text-white font-medium py-2 px-6 rounded-lg disabled:opacity-50 w-full"
+                          >
+                            {unlocking ? "Unlocking..." : (
+                              hasSchedule(items[currentItem]) && scheduleStatus ? 
+                                (scheduleStatus.open === false ? "Location Closed - Song Locked" : "Unlock This Song") : 
+                                "Unlock This Song"
+                            )}
+                          </button>
+                        </>
+                      )}
+                    </>
+                  ) : (
+                    <div className="py-8 text-gray-500">
+                      Getting your location...
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {!watching && (
+                <div className="text-center py-8 text-gray-500">
+                  Click "Start Compass" to begin navigating to the next location.
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg border border-gray-200 p-6">
+            <h2 className="text-lg font-semibold mb-4">Unlocked Locations</h2>
+            {unlockedStops.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">
+                No locations unlocked yet. Start navigating to find your first song!
+              </p>
+            ) : (
+              <ul className="space-y-3">
+                {timeline.map(({ item, unlockedAt }) => (
+                  <li key={item.id} className="p-3 bg-green-50 rounded border border-green-200">
+                    <div className="flex items-center">
+                      <span className="inline-block w-6 h-6 text-center bg-green-500 text-white rounded-full mr-2">
+                        {items.indexOf(item) + 1}
+                      </span>
+                      <div className="min-w-0">
+                        {item.title && <div className="font-medium">{item.title}</div>}
+                        <a
+                          href={item.spotifyUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-green-500 hover:underline"
+                        >
+                          {item.spotifyUrl.substring(0, 40)}...
+                        </a>
+                      </div>
+                    </div>
+                    {item.arrivalText && (
+                      <p className="mt-2 text-sm text-gray-700 pl-8 whitespace-pre-line">{item.arrivalText}</p>
+                    )}
+                    {unlockedAt && (
+                      <div className="mt-2 text-xs text-gray-500 pl-8">
+                        Unlocked at {formatUnlockTime(unlockedAt)}
+                      </div>
+                    )}
+                    {item.onlyDuring && (
+                      <div className="mt-2 text-xs text-gray-500 pl-8">
+                        <span className="font-medium">Only available during:</span> {item.onlyDuring}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
\ No newline at end of file
@@ -0,0 +1,121 @@
+/**
+ * Branching routes, where a stop can lead on to one of several others and the player picks
+ * which. Stops name the ones that follow by ID; a stop that names none leads on to the next
+ * one in the list, so placelists without links are a single straight route.
+ */
+
+import type { PlacelistItem, StopLink } from "./placelistParsers"
+
+/**
+ * A way on from a stop, with the stop it leads to
+ */
+export interface WayOn {
+  stop: PlacelistItem
+  label?: string
+}
+
+/**
+ * Whether any stop says where the route goes next, rather than following the list
+ */
+export function hasBranches(items: PlacelistItem[]): boolean {
+  return items.some(item => item.next !== undefined)
+}
+
+/**
+ * The ways on from a stop. Links to stops that don't exist are left out.
+ */
+export function getWaysOn(items: PlacelistItem[], item: PlacelistItem): WayOn[] {
+  if (!item.next) {
+    const following = items[items.indexOf(item) + 1]
+    return following ? [{ stop: following }] : []
+  }
+
+  return item.next.flatMap(link => {
+    const stop = items.find(candidate => candidate.id === link.stop)
+    return stop ? [{ stop, ...(link.label && { label: link.label }) }] : []
+  })
+}
+
+/**
+ * Links that lead to a stop that doesn't exist, with the stop they lead from
+ */
+export function findBrokenLinks(items: PlacelistItem[]): Array<{ item: PlacelistItem; link: StopLink }> {
+  const ids = new Set(items.map(item => item.id))
+
+  return items.flatMap(item =>
+    (item.next ?? []).filter(link => !ids.has(link.stop)).map(link => ({ item, link }))
+  )
+}
+
+/**
+ * How many steps each stop is from the first one along the shortest route there, by index.
+ * Stops no route passes through are left out.
+ */
+export function getRouteDepths(items: PlacelistItem[]): Map<number, number> {
+  const depths = new Map<number, number>()
+  if (items.length === 0) return depths
+
+  depths.set(0, 0)
+  const queue = [0]
+
+  while (queue.length > 0) {
+    const index = queue.shift()!
+    for (const { stop } of getWaysOn(items, items[index])) {
+      const next = items.indexOf(stop)
+      if (!depths.has(next)) {
+        depths.set(next, depths.get(index)! + 1)
+        queue.push(next)
+      }
+    }
+  }
+
+  return depths
+}
+
+/**
+ * Stops that can't be reached by any route from the first stop
+ */
+export function findUnreachableStops(items: PlacelistItem[]): PlacelistItem[] {
+  const depths = getRouteDepths(items)
+  return items.filter((_, index) => !depths.has(index))
+}
+
+/**
+ * A stop placed for drawing the route as a graph
+ */
+export interface RouteGraphNode {
+  index: number
+  column: number
+  row: number
+  reachable: boolean
+}
+
+/**
+ * Where to draw each stop and link of the route. Stops go in columns by how many steps they
+ * are from the first, in list order within a column, and unreachable stops go in a column
+ * of their own at the end.
+ */
+export function layoutRouteGraph(items: PlacelistItem[]) {
+  const depths = getRouteDepths(items)
+  const lastColumn = Math.max(-1, ...depths.values()) + 1
+  const rowsUsed: number[] = []
+
+  const nodes: RouteGraphNode[] = items.map((_, index) => {
+    const column = depths.get(index) ?? lastColumn
+    const row = rowsUsed[column] ?? 0
+    rowsUsed[column] = row + 1
+
+    return { index, column, row, reachable: depths.has(index) }
+  })
+
+  const edges = items.flatMap((item, from) =>
+    getWaysOn(items, item).map(({ stop, label }) => ({ from, to: items.indexOf(stop), label }))
+  )
+
+  return {
+    nodes,
+    edges,
+    columns: rowsUsed.length,
+    rows: Math.max(0, ...rowsUsed),
+  }
+}
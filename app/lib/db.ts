@@ -1,5 +1,15 @@
-import { PrismaClient } from '@prisma/client/edge'
+import { Prisma, PrismaClient, type PlacelistItem as PlacelistItemRow } from '@prisma/client/edge'
 import { withAccelerate } from '@prisma/extension-accelerate'
+import type { PlacelistItem } from './placelistParsers'
+import type { PositionReport, SpoofingStrictness } from './spoofing'
+import {
+  PLACELIST_FORMAT_VERSION,
+  assertValidPlacelistItems,
+  assignPositionalItemIds,
+  upgradePlacelistItems,
+  type PlayOrder
+} from './placelistSchema'
+import { countUnlockedStops, isSessionComplete, remapSessionProgress, type SessionProgress } from './unlock'
 
 let prisma = new PrismaClient().$extends(withAccelerate())
 
@@ -71,18 +81,98 @@ export async function getUserById(id: string) {
   })
 }
 
+// Items are kept a row per stop, in the order they are listed
+const itemsInOrder = { orderBy: { position: 'asc' } } as const
+
+// Shape an item as a PlacelistItem row
+function toItemRow(item: PlacelistItem, position: number) {
+  return {
+    itemId: item.id!,
+    position,
+    lat: item.location.lat,
+    lng: item.location.lng,
+    spotifyUrl: item.spotifyUrl,
+    trackId: item.trackId ?? null,
+    title: item.title ?? null,
+    clue: item.clue ?? null,
+    arrivalText: item.arrivalText ?? null,
+    onlyDuring: item.onlyDuring ?? null,
+    availability: item.availability,
+    radius: item.radius ?? null,
+    area: item.area,
+    next: item.next,
+    choicePrompt: item.choicePrompt ?? null
+  }
+}
+
+// Turn a PlacelistItem row back into an item, leaving out the fields it doesn't have. The JSON
+// fields were checked against the placelist schema before they were saved.
+function fromItemRow(row: PlacelistItemRow): PlacelistItem {
+  const { area, availability, next } = row as unknown as Pick<PlacelistItem, 'area' | 'availability' | 'next'>
+
+  return {
+    id: row.itemId,
+    location: { lat: row.lat, lng: row.lng },
+    spotifyUrl: row.spotifyUrl,
+    trackId: row.trackId,
+    ...(row.onlyDuring && { onlyDuring: row.onlyDuring }),
+    ...(row.title && { title: row.title }),
+    ...(row.clue && { clue: row.clue }),
+    ...(row.arrivalText && { arrivalText: row.arrivalText }),
+    ...(row.radius !== null && { radius: row.radius }),
+    ...(area && { area }),
+    ...(availability && { availability }),
+    ...(next && { next }),
+    ...(row.choicePrompt && { choicePrompt: row.choicePrompt })
+  }
+}
+
+// Items kept in the JSON column before they had a table of their own, upgraded from the
+// document version they were written in and given the IDs sessions know them by
+function readLegacyItems(placelist: { legacyItems?: unknown; formatVersion?: number | null }) {
+  return assignPositionalItemIds(upgradePlacelistItems(placelist.legacyItems, placelist.formatVersion ?? 1))
+}
+
+// The rest of the app only ever sees items in the current format, each with an ID. Until
+// scripts/migrate-placelist-items.sql has moved a placelist's items into rows, they are still
+// read from the JSON column, which is cleared whenever the items are written to rows.
+function withCurrentItems<T extends { items: PlacelistItemRow[]; legacyItems: Prisma.JsonValue; formatVersion: number }>(placelist: T) {
+  return {
+    ...placelist,
+    items: placelist.items.length === 0 && placelist.legacyItems !== null
+      ? readLegacyItems(placelist)
+      : placelist.items.map(fromItemRow),
+    formatVersion: PLACELIST_FORMAT_VERSION
+  }
+}
+
 // Helper functions for working with placelists
 export async function createPlacelist(data: {
   name: string
   description?: string
-  items: Array<{ location: { lat: number; lng: number }; spotifyUrl: string }>
+  defaultRadius?: number | null
+  activeFrom?: string | null
+  activeUntil?: string | null
+  playOrder?: PlayOrder
+  spoofingStrictness?: SpoofingStrictness
+  items: PlacelistItem[]
+  source?: string | null
   authorId: string
 }) {
+  assertValidPlacelistItems(data.items)
+
   return prisma.placelist.create({
     data: {
       name: data.name,
       description: data.description,
-      items: data.items,
+      defaultRadius: data.defaultRadius,
+      activeFrom: data.activeFrom,
+      activeUntil: data.activeUntil,
+      playOrder: data.playOrder,
+      spoofingStrictness: data.spoofingStrictness,
+      items: { create: data.items.map(toItemRow) },
+      formatVersion: PLACELIST_FORMAT_VERSION,
+      source: data.source,
       authorId: data.authorId
     },
   })
@@ -93,6 +183,7 @@ export async function getPlacelist(id: string) {
     where: { id },
     include: {
       author: true,
+      items: itemsInOrder,
       sessions: {
         include: {
           user: true
@@ -104,26 +195,27 @@ export async function getPlacelist(id: string) {
   if (!placelist) return null
 
   // Calculate session statistics
-  const items = placelist.items as any[]
-  const totalItems = items.length
+  const current = withCurrentItems(placelist)
 
-  const activeSessions = placelist.sessions.filter(s =>
-    s.progress < totalItems && s.userId)
-  const completedSessions = placelist.sessions.filter(s =>
-    s.progress >= totalItems && s.userId)
+  const activeSessions = current.sessions.filter(s =>
+    !isSessionComplete(current, s) && s.userId)
+  const completedSessions = current.sessions.filter(s =>
+    isSessionComplete(current, s) && s.userId)
 
   return {
-    ...placelist,
+    ...current,
     activeSessions,
     completedSessions
   }
 }
 
 export async function getAllPlacelists() {
-  return prisma.placelist.findMany({
+  const placelists = await prisma.placelist.findMany({
     orderBy: { createdAt: "desc" },
-    include: { author: true }
+    include: { author: true, items: itemsInOrder }
   })
+
+  return placelists.map(withCurrentItems)
 }
 
 export async function getPlacelistsByUser(userId: string) {
@@ -133,14 +225,14 @@ export async function getPlacelistsByUser(userId: string) {
     orderBy: { createdAt: "desc" },
     include: {
       author: true,
+      items: itemsInOrder,
       sessions: true
     }
   })
 
   // For each placelist, count the sessions by status
-  return placelists.map(placelist => {
-    const items = placelist.items as any[]
-    const totalItems = items.length
+  return placelists.map(stored => {
+    const placelist = withCurrentItems(stored)
 
     // Count sessions by status
     const sessionStats = {
@@ -158,9 +250,9 @@ export async function getPlacelistsByUser(userId: string) {
       }
 
       // Count completed vs. in-progress
-      if (session.progress >= totalItems) {
+      if (isSessionComplete(placelist, session)) {
         sessionStats.completed++
-      } else if (session.progress > 0) {
+      } else if (countUnlockedStops(placelist, session) > 0) {
         sessionStats.inProgress++
       }
     })
@@ -179,17 +271,101 @@ export async function deletePlacelist(id: string) {
   })
 }
 
+const MAX_SAVE_ATTEMPTS = 3
+
+// Thrown to roll back a save when a session it updates has moved on since it was read
+class SessionChangedError extends Error {}
+
+// Matches a session only while its progress is still as it was read
+function unchangedProgress({ progress, unlockedItemIds, chosenItemId }: SessionProgress) {
+  return { progress, unlockedItemIds: { equals: unlockedItemIds }, chosenItemId: chosenItemId ?? null }
+}
+
 export async function updatePlacelist(
   id: string,
   data: {
     name?: string
     description?: string
-    items?: Array<{ location: { lat: number; lng: number }; spotifyUrl: string }>
+    defaultRadius?: number | null
+    activeFrom?: string | null
+    activeUntil?: string | null
+    playOrder?: PlayOrder
+    spoofingStrictness?: SpoofingStrictness
+    items?: PlacelistItem[]
+    source?: string | null
   }
 ) {
-  return prisma.placelist.update({
-    where: { id },
-    data,
+  const { items, ...fields } = data
+
+  if (!items) {
+    return prisma.placelist.update({ where: { id }, data: fields })
+  }
+
+  assertValidPlacelistItems(items)
+
+  // A session that unlocks a stop while the edit is saved would have its unlock overwritten by
+  // the remapped progress, so the save is tried again from the start when that happens
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await savePlacelistItems(id, fields, items)
+    } catch (err) {
+      if (!(err instanceof SessionChangedError) || attempt === MAX_SAVE_ATTEMPTS) throw err
+    }
+  }
+}
+
+// Saves an edit to a placelist's items in one transaction, remapping its sessions to them
+async function savePlacelistItems(id: string, fields: Prisma.PlacelistUpdateInput, items: PlacelistItem[]) {
+  return prisma.$transaction(async tx => {
+    // Sessions go by item IDs, so follow each unlocked stop to wherever it is now and let go
+    // of the ones that were removed, along with the placelist update
+    const stored = await tx.placelist.findUniqueOrThrow({
+      where: { id },
+      include: { items: itemsInOrder, sessions: true }
+    })
+    const before = withCurrentItems(stored)
+    const after = { items }
+
+    for (const session of before.sessions) {
+      const remapped = remapSessionProgress(before, after, session)
+      const unchanged = remapped.progress === session.progress
+        && remapped.unlockedItemIds.join() === session.unlockedItemIds.join()
+        && remapped.chosenItemId === session.chosenItemId
+
+      if (unchanged) continue
+
+      const { count } = await tx.userSession.updateMany({
+        where: { id: session.id, ...unchangedProgress(session) },
+        data: remapped,
+      })
+      if (count === 0) throw new SessionChangedError(`Session ${session.id} changed while placelist ${id} was saved`)
+    }
+
+    // Replace the rows so fields the author removed are cleared, giving each stop that is still
+    // there its old row ID so anything that refers to it still finds it
+    const rowIds = new Map(stored.items.map(row => [row.itemId, row.id]))
+    await tx.placelistItem.deleteMany({ where: { placelistId: id } })
+    await tx.placelistItem.createMany({
+      data: items.map((item, position) => ({
+        id: rowIds.get(item.id!),
+        placelistId: id,
+        ...toItemRow(item, position)
+      }))
+    })
+
+    // IDs of removed stops are kept so they are never given to another stop
+    const remaining = new Set(items.map(item => item.id))
+    const retiredItemIds = [
+      ...stored.retiredItemIds,
+      ...before.items.map(item => item.id!).filter(itemId => !remaining.has(itemId))
+    ]
+
+    // The items now live in the rows alone, so the JSON column is cleared to keep old stops from
+    // coming back if the rows are ever empty
+    return tx.placelist.update({
+      where: { id },
+      data: { ...fields, retiredItemIds, legacyItems: Prisma.DbNull, formatVersion: PLACELIST_FORMAT_VERSION },
+    })
   })
 }
 
@@ -203,16 +379,127 @@ export async function createSession(placelistId: string) {
 }
 
 export async function getSession(id: string) {
-  return prisma.userSession.findUnique({
+  const session = await prisma.userSession.findUnique({
     where: { id },
-    include: { placelist: true },
+    include: { placelist: { include: { items: itemsInOrder } } },
   })
+
+  return session && { ...session, placelist: withCurrentItems(session.placelist) }
 }
 
-export async function updateSessionProgress(id: string, progress: number) {
+export async function updateSessionProgress(id: string, { progress, unlockedItemIds, chosenItemId }: SessionProgress) {
   return prisma.userSession.update({
     where: { id },
-    data: { progress },
+    data: { progress, unlockedItemIds, chosenItemId: chosenItemId ?? null },
+  })
+}
+
+// Saves a session's progress once a stop is unlocked, along with an event recording when it
+// was unlocked and the position it was unlocked with. Nothing is saved if the session's
+// progress is no longer what the unlock was worked out from, as when two requests unlock at
+// once; returns whether it was saved.
+export async function recordUnlock(
+  id: string,
+  from: SessionProgress,
+  { progress, unlockedItemIds, chosenItemId }: SessionProgress,
+  itemId: string,
+  report: PositionReport
+) {
+  return prisma.$transaction(async tx => {
+    const { count } = await tx.userSession.updateMany({
+      where: { id, ...unchangedProgress(from) },
+      data: { progress, unlockedItemIds, chosenItemId: chosenItemId ?? null },
+    })
+    if (count === 0) return false
+
+    await tx.unlockEvent.create({
+      data: {
+        sessionId: id,
+        itemId,
+        lat: report.lat,
+        lng: report.lng,
+        accuracy: report.accuracy,
+        takenAt: new Date(report.timestamp)
+      }
+    })
+
+    return true
+  })
+}
+
+// A session's unlocks, oldest first
+export async function getUnlockEvents(sessionId: string) {
+  return prisma.unlockEvent.findMany({
+    where: { sessionId },
+    orderBy: { unlockedAt: 'asc' }
+  })
+}
+
+// The unlocks of every session of a placelist, oldest first, for the author's timings
+export async function getPlacelistUnlockEvents(placelistId: string) {
+  return prisma.unlockEvent.findMany({
+    where: { session: { placelistId } },
+    orderBy: { unlockedAt: 'asc' }
+  })
+}
+
+// Location reports, kept per session so faked GPS can be spotted
+export async function recordLocationReport(sessionId: string, report: PositionReport, signs: string[]) {
+  return prisma.locationReport.create({
+    data: {
+      sessionId,
+      lat: report.lat,
+      lng: report.lng,
+      accuracy: report.accuracy,
+      takenAt: new Date(report.timestamp),
+      signs
+    }
+  })
+}
+
+// The session's latest reports, oldest first
+export async function getRecentLocationReports(sessionId: string, take = 10): Promise<PositionReport[]> {
+  const reports = await prisma.locationReport.findMany({
+    where: { sessionId },
+    orderBy: { takenAt: 'desc' },
+    take
+  })
+
+  return reports.reverse().map(report => ({
+    lat: report.lat,
+    lng: report.lng,
+    accuracy: report.accuracy,
+    timestamp: report.takenAt.getTime()
+  }))
+}
+
+// Keeps the time a session was first flagged, however many suspicious reports follow
+export async function flagSession(id: string) {
+  return prisma.userSession.updateMany({
+    where: { id, flaggedAt: null },
+    data: { flaggedAt: new Date() }
+  })
+}
+
+export async function clearSessionFlag(id: string) {
+  return prisma.userSession.update({
+    where: { id },
+    data: { flaggedAt: null }
+  })
+}
+
+// Flagged sessions of a placelist with the reports that got them flagged
+export async function getFlaggedSessions(placelistId: string) {
+  return prisma.userSession.findMany({
+    where: { placelistId, flaggedAt: { not: null } },
+    include: {
+      user: true,
+      locationReports: {
+        where: { signs: { isEmpty: false } },
+        orderBy: { takenAt: 'asc' }
+      }
+    },
+    orderBy: { flaggedAt: 'desc' }
   })
 }
 
@@ -225,18 +512,22 @@ export async function associateSessionWithUser(sessionId: string, userId: string
 }
 
 export async function getSessionWithUser(id: string) {
-  return prisma.userSession.findUnique({
+  const session = await prisma.userSession.findUnique({
     where: { id },
-    include: { placelist: true, user: true },
+    include: { placelist: { include: { items: itemsInOrder } }, user: true },
   })
+
+  return session && { ...session, placelist: withCurrentItems(session.placelist) }
 }
 
 export async function getUserSessions(userId: string) {
-  return prisma.userSession.findMany({
+  const sessions = await prisma.userSession.findMany({
     where: { userId },
-    include: { placelist: true },
+    include: { placelist: { include: { items: itemsInOrder } } },
     orderBy: { updatedAt: 'desc' }
   })
+
+  return sessions.map(session => ({ ...session, placelist: withCurrentItems(session.placelist) }))
 }
 
 // Get all user sessions grouped by completion status
@@ -247,7 +538,8 @@ export async function getUserSessionsGrouped(userId: string) {
     include: {
       placelist: {
         include: {
-          author: true
+          author: true,
+          items: itemsInOrder
         }
       }
     },
@@ -258,12 +550,10 @@ export async function getUserSessionsGrouped(userId: string) {
   const inProgressSessions = []
   const completedSessions = []
 
-  for (const session of userSessions) {
-    // Get the items length to determine if the session is complete
-    const items = session.placelist.items as any[]
-    const totalItems = items.length
+  for (const stored of userSessions) {
+    const session = { ...stored, placelist: withCurrentItems(stored.placelist) }
 
-    if (session.progress >= totalItems) {
+    if (isSessionComplete(session.placelist, session)) {
       completedSessions.push(session)
     } else {
       inProgressSessions.push(session)
@@ -0,0 +1,61 @@
+import { describe, expect, test } from "bun:test"
+import { addFix, getAdjustedDistance, getStopTolerance, isSurelyAtStop, isWeakGps, smoothFixes } from "./gps"
+
+// About 220 meters across, on the equator so a degree is about as long either way
+const area = [{ lat: -0.001, lng: -0.001 }, { lat: -0.001, lng: 0.001 }, { lat: 0.001, lng: 0.001 }, { lat: 0.001, lng: -0.001 }]
+const areaStop = { location: { lat: 0, lng: 0 }, area }
+const pointStop = { location: { lat: 0, lng: 0 }, radius: 30 }
+
+describe("smoothing", () => {
+  test("drops fixes outside the window", () => {
+    const recent = addFix([{ lat: 0, lng: 0, accuracy: 5, timestamp: 0 }], { lat: 0, lng: 0, accuracy: 5, timestamp: 20000 })
+    expect(recent).toHaveLength(1)
+  })
+
+  test("barely moves for a wild fix", () => {
+    const smoothed = smoothFixes([
+      { lat: 0, lng: 0, accuracy: 5, timestamp: 0 },
+      { lat: 0.01, lng: 0, accuracy: 500, timestamp: 1000 },
+    ])!
+
+    expect(smoothed.lat).toBeLessThan(0.00001)
+    expect(smoothed.accuracy).toBe(5)
+    expect(smoothed.timestamp).toBe(1000)
+  })
+
+  test("has nothing to go on without fixes", () => {
+    expect(smoothFixes([])).toBeNull()
+  })
+})
+
+describe("isSurelyAtStop", () => {
+  test("counts the accuracy against the distance", () => {
+    expect(getAdjustedDistance(10, 15)).toBe(25)
+  })
+
+  test("adds the accuracy to the distance from a point stop", () => {
+    // About 11 meters from the stop
+    expect(isSurelyAtStop({ lat: 0.0001, lng: 0 }, 15, pointStop)).toBe(true)
+    expect(isSurelyAtStop({ lat: 0.0001, lng: 0 }, 25, pointStop)).toBe(false)
+  })
+
+  test("needs the player inside an area by at least the accuracy", () => {
+    // About 55 meters from the nearest edge
+    const inside = { lat: 0.0005, lng: 0 }
+
+    expect(isSurelyAtStop(inside, 20, areaStop)).toBe(true)
+    expect(isSurelyAtStop(inside, 60, areaStop)).toBe(false)
+    expect(isSurelyAtStop({ lat: 0.0012, lng: 0 }, 5, areaStop)).toBe(false)
+  })
+})
+
+describe("weak GPS", () => {
+  test("is judged against how much room the stop gives", () => {
+    expect(getStopTolerance(pointStop)).toBe(30)
+    expect(getStopTolerance(areaStop)).toBeCloseTo(111, 0)
+
+    expect(isWeakGps(35, getStopTolerance(pointStop))).toBe(true)
+    expect(isWeakGps(35, getStopTolerance(areaStop))).toBe(false)
+    expect(isWeakGps(60, getStopTolerance(areaStop))).toBe(true)
+  })
+})
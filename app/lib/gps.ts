@@ -0,0 +1,108 @@
+/**
+ * Steadying raw GPS fixes for the player. Phones report a new fix every second or so, each
+ * off by up to its stated accuracy, so a single fix is a poor guide to where the player is.
+ */
+
+import { getDepthInPolygon, getPolygonCenter, getStopTarget, getUnlockRadius, type LatLng } from "./utils"
+
+// Fixes older than this no longer say much about where the player is now
+const SMOOTHING_WINDOW_MS = 15 * 1000
+const MAX_SMOOTHED_FIXES = 5
+// Beyond this the position is too vague to guide anyone to a stop
+export const WEAK_GPS_ACCURACY = 50 // meters
+
+/**
+ * A position fix, with its accuracy radius in meters and when it was taken
+ */
+export interface Fix extends LatLng {
+  accuracy: number
+  timestamp: number
+}
+
+/**
+ * Adds a fix to the recent ones, dropping any that have fallen out of the smoothing window
+ */
+export function addFix(recent: Fix[], fix: Fix): Fix[] {
+  return [...recent, fix]
+    .filter(earlier => fix.timestamp - earlier.timestamp <= SMOOTHING_WINDOW_MS)
+    .slice(-MAX_SMOOTHED_FIXES)
+}
+
+/**
+ * Combines recent fixes into one, weighting each by how accurate it claims to be, so a
+ * single wild fix with a large accuracy radius barely moves the result. Returns null if
+ * there are no fixes.
+ */
+export function smoothFixes(fixes: Fix[]): Fix | null {
+  if (fixes.length === 0) return null
+
+  let totalWeight = 0
+  let lat = 0
+  let lng = 0
+
+  for (const fix of fixes) {
+    // Inverse-variance weights; a zero accuracy would otherwise outweigh everything else
+    const weight = 1 / Math.max(fix.accuracy, 1) ** 2
+    totalWeight += weight
+    lat += fix.lat * weight
+    lng += fix.lng * weight
+  }
+
+  // Fixes from the same receiver share most of their error, so averaging them doesn't
+  // make the result more accurate than the best of them
+  const accuracy = Math.max(Math.min(...fixes.map(fix => fix.accuracy)), Math.sqrt(1 / totalWeight))
+
+  return {
+    lat: lat / totalWeight,
+    lng: lng / totalWeight,
+    accuracy,
+    timestamp: fixes[fixes.length - 1].timestamp,
+  }
+}
+
+/**
+ * The furthest the player might really be from a point, given the accuracy of their position
+ */
+export function getAdjustedDistance(distance: number, accuracy: number): number {
+  return distance + accuracy
+}
+
+/**
+ * How far off a position can be while still placing the player at a stop: the unlock radius,
+ * or for an area stop, how far its middle is from the nearest edge
+ */
+export function getStopTolerance(
+  item: { location: LatLng; radius?: number; area?: LatLng[] },
+  placelistDefault?: number | null
+): number {
+  if (item.area && item.area.length >= 3) {
+    return Math.max(0, getDepthInPolygon(getPolygonCenter(item.area), item.area))
+  }
+
+  return getUnlockRadius(item, placelistDefault)
+}
+
+/**
+ * Whether the player is at a stop however far off the position is: within the unlock radius
+ * with the accuracy added, or inside the area by at least the accuracy
+ */
+export function isSurelyAtStop(
+  position: LatLng,
+  accuracy: number,
+  item: { location: LatLng; radius?: number; area?: LatLng[] },
+  placelistDefault?: number | null
+): boolean {
+  if (item.area && item.area.length >= 3) {
+    return getDepthInPolygon(position, item.area) >= accuracy
+  }
+
+  return getAdjustedDistance(getStopTarget(position, item).distance, accuracy) <= getUnlockRadius(item, placelistDefault)
+}
+
+/**
+ * Whether the position is too vague to rely on, either at all or for how much room a stop
+ * gives it (see getStopTolerance)
+ */
+export function isWeakGps(accuracy: number, tolerance: number): boolean {
+  return accuracy > WEAK_GPS_ACCURACY || accuracy >= tolerance
+}
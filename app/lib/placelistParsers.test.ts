@@ -0,0 +1,526 @@
+import { describe, expect, test } from "bun:test";
+import { strToU8, zipSync } from "fflate";
+import {
+  detectPlacelistFormat,
+  findFieldsLostInTraditional,
+  formatAsGeoJson,
+  formatAsGpx,
+  formatAsYaml,
+  guessCsvColumnMapping,
+  hasParseErrors,
+  mapCsvRows,
+  parseCsv,
+  parseGeoJsonFormat,
+  parseGpxFormat,
+  parseKmlPlacemarks,
+  parsePlacelistText,
+  parsePlacemarkFile,
+  parseTraditionalFormat,
+  parseYamlFormat,
+  patchYamlItems,
+  writeYamlItemIds,
+  type PlacelistItem
+} from "./placelistParsers";
+
+const TRACK = "https://open.spotify.com/track/4uLU6hMCjMI75M1A2tKUQC";
+
+const items: PlacelistItem[] = [
+  {
+    location: { lat: 51.5, lng: -0.12 },
+    spotifyUrl: TRACK,
+    trackId: "4uLU6hMCjMI75M1A2tKUQC",
+    title: "Start & finish",
+    onlyDuring: "9am-5pm (MO-FR)",
+    clue: "Look for the red door",
+    arrivalText: "You made it",
+    availability: { from: "2026-06-01", except: ["2026-07-04"] }
+  },
+  { location: { lat: 51.51, lng: -0.13 }, spotifyUrl: TRACK, trackId: "4uLU6hMCjMI75M1A2tKUQC", radius: 40 }
+];
+
+const branchingItems: PlacelistItem[] = [
+  { ...items[0], id: "start", next: [{ stop: "left", label: "Down by the river" }, { stop: "right" }], choicePrompt: "Which way now?" },
+  { ...items[1], id: "left", next: [] },
+  { id: "right", location: { lat: 51.52, lng: -0.14 }, spotifyUrl: TRACK, trackId: "4uLU6hMCjMI75M1A2tKUQC" }
+];
+
+describe("detectPlacelistFormat", () => {
+  test("tells the formats apart", () => {
+    expect(detectPlacelistFormat("<gpx></gpx>")).toBe("gpx");
+    expect(detectPlacelistFormat('{"type": "FeatureCollection"}')).toBe("geojson");
+    expect(detectPlacelistFormat(`- location: { lat: 51.5, lng: -0.12 }\n  spotifyUrl: ${TRACK}`)).toBe("yaml");
+    expect(detectPlacelistFormat(`51.5,-0.12\n${TRACK}`)).toBe("traditional");
+  });
+
+  test("counts broken YAML as YAML, so its errors are reported", () => {
+    expect(detectPlacelistFormat("- location: [51.5")).toBe("yaml");
+  });
+});
+
+describe("parseTraditionalFormat", () => {
+  test("pairs each location with the link after it", () => {
+    const { items, diagnostics } = parseTraditionalFormat(`51.5,-0.12\n${TRACK}\n\n51.6,-0.1\nspotify:track:abc`);
+
+    expect(items.map(item => item.location)).toEqual([{ lat: 51.5, lng: -0.12 }, { lat: 51.6, lng: -0.1 }]);
+    expect(items[1].trackId).toBe("abc");
+    expect(diagnostics).toEqual([]);
+  });
+
+  test("reports lines it had to skip by line number", () => {
+    const { items, diagnostics } = parseTraditionalFormat(`51.5,-0.12\n51.6,-0.1\n${TRACK}\nsomething else\nhttps://example.com\n${TRACK}`);
+
+    expect(items).toHaveLength(1);
+    expect(diagnostics).toEqual([
+      { severity: 'error', line: 1, message: "Location on line 1 has no Spotify link after it, so it was skipped." },
+      { severity: 'warning', line: 4, message: "Line 4 is neither a location nor a Spotify link and was ignored." },
+      { severity: 'error', line: 5, message: "Unrecognised URL on line 5. Each location needs a Spotify track link." },
+      { severity: 'error', line: 6, message: "Spotify link on line 6 has no location before it, so it was skipped." }
+    ]);
+  });
+
+  test("flags stops that players would trip over", () => {
+    const { diagnostics } = parseTraditionalFormat("95,-0.12\nhttps://open.spotify.com/album/abc");
+
+    expect(diagnostics.map(({ severity, message }) => [severity, message])).toEqual([
+      ['error', "Latitude 95 for the stop on line 1 is out of range (-90 to 90)."],
+      ['warning', "Spotify link for the stop on line 1 is not a track link, so it can't be played in the embed."]
+    ]);
+  });
+});
+
+describe("findFieldsLostInTraditional", () => {
+  test("names the fields legacy lines can't hold", () => {
+    expect(findFieldsLostInTraditional(items)).toEqual(["title", "onlyDuring", "clue", "arrivalText", "availability", "radius"]);
+    expect(findFieldsLostInTraditional(branchingItems)).toContain("next");
+  });
+
+  test("has nothing to report for plain stops with IDs", () => {
+    expect(findFieldsLostInTraditional([{ id: "a", location: { lat: 51.5, lng: -0.12 }, spotifyUrl: TRACK, trackId: "abc" }])).toEqual([]);
+  });
+});
+
+describe("parseYamlFormat", () => {
+  test("points problems at the line of the item", () => {
+    const { items, diagnostics } = parseYamlFormat([
+      "- location: { lat: 51.5, lng: -0.12 }",
+      `  spotifyUrl: ${TRACK}`,
+      "- location: { lat: 51.6, lng: -0.12 }",
+      "  title: No link"
+    ].join("\n"));
+
+    expect(items).toHaveLength(1);
+    expect(hasParseErrors(diagnostics)).toBe(true);
+    expect(diagnostics.map(diagnostic => diagnostic.line)).toEqual([3]);
+  });
+
+  test("places area stops written without a location in the middle of the area", () => {
+    const { items, diagnostics } = parseYamlFormat([
+      `- spotifyUrl: ${TRACK}`,
+      "  area: [[51.5, -0.12], [51.5, -0.11], [51.51, -0.11], [51.51, -0.12]]",
+      "  radius: 10"
+    ].join("\n"));
+
+    expect(items[0].location.lat).toBeCloseTo(51.505);
+    expect(items[0].location.lng).toBeCloseTo(-0.115);
+    expect(items[0].area).toHaveLength(4);
+    expect(diagnostics).toEqual([
+      { severity: 'warning', line: 1, message: "Unlock radius for the item on line 1 is ignored because it has an unlock area." }
+    ]);
+  });
+
+  test("needs at least three points for an area", () => {
+    const { diagnostics } = parseYamlFormat(`- spotifyUrl: ${TRACK}\n  area: [[51.5, -0.12], [51.5, -0.11]]`);
+
+    expect(diagnostics[0].message)
+      .toBe("Invalid unlock area for the item on line 1. An area needs a list of at least three points. It was skipped.");
+  });
+
+  test("checks availability dates", () => {
+    const { items, diagnostics } = parseYamlFormat([
+      "- location: { lat: 51.5, lng: -0.12 }",
+      `  spotifyUrl: ${TRACK}`,
+      "  availability: { from: 2026-09-01, until: 2026-06-01 }",
+      "- location: { lat: 51.6, lng: -0.12 }",
+      `  spotifyUrl: ${TRACK}`,
+      "  availability: { dates: [2026-02-30] }"
+    ].join("\n"));
+
+    expect(items).toHaveLength(1);
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      "Availability for the item on line 1 ends (2026-06-01) before it starts (2026-09-01).",
+      'Invalid date "2026-02-30" in the availability for the item on line 4. Dates are written as YYYY-MM-DD. It was skipped.'
+    ]);
+  });
+
+  test("turns down unlock radii that aren't a positive distance", () => {
+    const { items, diagnostics } = parseYamlFormat(`- location: { lat: 51.5, lng: -0.12 }\n  spotifyUrl: ${TRACK}\n  radius: -5`);
+
+    expect(items).toEqual([]);
+    expect(diagnostics[0].message)
+      .toBe("Invalid unlock radius for the item on line 1. The radius must be a positive number of meters. It was skipped.");
+  });
+
+  test("stops at syntax errors", () => {
+    const { items, diagnostics } = parseYamlFormat("- location: [51.5\n");
+
+    expect(items).toEqual([]);
+    expect(diagnostics[0].message).toStartWith("YAML parsing error");
+  });
+
+  test("reads the document header and items", () => {
+    const result = parseYamlFormat([
+      "version: 2",
+      "name: Riverside",
+      "defaultRadius: 30",
+      "activeFrom: 2026-06-01",
+      "playOrder: any",
+      "items:",
+      "  - location: { lat: 51.5, lng: -0.12 }",
+      `    spotifyUrl: ${TRACK}`
+    ].join("\n"));
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.name).toBe("Riverside");
+    expect(result.defaultRadius).toBe(30);
+    expect(result.activeFrom).toBe("2026-06-01");
+    expect(result.playOrder).toBe("any");
+    expect(result.items).toHaveLength(1);
+  });
+
+  test("upgrades bare lists from version 1", () => {
+    const result = parseYamlFormat(`- location: { lat: "51.5", lng: "-0.12" }\n  spotifyUrl: ${TRACK}`);
+
+    expect(result.diagnostics).toEqual([]);
+    expect(result.items[0].location).toEqual({ lat: 51.5, lng: -0.12 });
+  });
+
+  test("needs a version it understands", () => {
+    expect(parseYamlFormat("title: Walk\nitems: []").diagnostics[0].message)
+      .toBe("Placelist document needs a whole-number `version` field.");
+    expect(parseYamlFormat("version: 3\nitems: []").diagnostics[0])
+      .toEqual({ severity: 'error', line: 1, message: "Placelist document is version 3, but this editor only understands up to version 2." });
+  });
+
+  test("needs an items list", () => {
+    expect(parseYamlFormat("version: 2\nitems: none").diagnostics[0])
+      .toEqual({ severity: 'error', line: 2, message: "Placelist document needs an `items` list, with '-' before each item." });
+  });
+
+  test("reports what only the schema catches", () => {
+    const { diagnostics } = parseYamlFormat(`version: 2\nname: [Walk]\nitems: []`);
+    expect(diagnostics).toEqual([{ severity: 'error', line: 2, message: "Schema error: name must be string" }]);
+  });
+
+  test("reads back what it writes", () => {
+    const { items: parsed, diagnostics } = parseYamlFormat(formatAsYaml(items));
+
+    expect(diagnostics).toEqual([]);
+    expect(parsed).toEqual(items);
+  });
+});
+
+describe("parsePlacelistText", () => {
+  test("gives every stop an ID", () => {
+    const { items } = parsePlacelistText(`51.5,-0.12\n${TRACK}\n51.6,-0.1\n${TRACK}`);
+    expect(items.every(item => /^stop-[0-9a-f]{8}$/.test(item.id!))).toBe(true);
+  });
+
+  test("turns down IDs used twice", () => {
+    const { diagnostics } = parseYamlFormat([
+      "version: 2",
+      "items:",
+      "  - id: a",
+      "    location: { lat: 51.5, lng: -0.12 }",
+      `    spotifyUrl: ${TRACK}`,
+      "  - id: a",
+      "    location: { lat: 51.6, lng: -0.12 }",
+      `    spotifyUrl: ${TRACK}`
+    ].join("\n"));
+
+    expect(diagnostics).toEqual([
+      { severity: 'error', line: 6, message: 'The ID "a" of the item on line 6 is already used by another stop.' }
+    ]);
+  });
+});
+
+describe("branching routes", () => {
+  const fork = [
+    "version: 2",
+    "items:",
+    "  - id: start",
+    "    location: { lat: 51.5, lng: -0.12 }",
+    `    spotifyUrl: ${TRACK}`,
+    "    next: [{ stop: left, label: Down by the river }, right]",
+    "    choicePrompt: Which way now?",
+    "  - id: left",
+    "    location: { lat: 51.51, lng: -0.13 }",
+    `    spotifyUrl: ${TRACK}`,
+    "    next: []",
+    "  - id: right",
+    "    location: { lat: 51.52, lng: -0.14 }",
+    `    spotifyUrl: ${TRACK}`
+  ];
+
+  test("reads links to the next stops, written out or as bare IDs", () => {
+    const { items, diagnostics } = parseYamlFormat(fork.join("\n"));
+
+    expect(diagnostics).toEqual([]);
+    expect(items[0].next).toEqual([{ stop: "left", label: "Down by the river" }, { stop: "right" }]);
+    expect(items[0].choicePrompt).toBe("Which way now?");
+    expect(items[1].next).toEqual([]);
+    expect(parseYamlFormat(formatAsYaml(items)).items).toEqual(items);
+  });
+
+  test("checks links between stops", () => {
+    const { diagnostics } = parseYamlFormat([
+      "version: 2",
+      "items:",
+      "  - id: a",
+      "    location: { lat: 51.5, lng: -0.12 }",
+      `    spotifyUrl: ${TRACK}`,
+      "    next: [nowhere]",
+      "  - id: b",
+      "    location: { lat: 51.6, lng: -0.12 }",
+      `    spotifyUrl: ${TRACK}`
+    ].join("\n"));
+
+    expect(diagnostics.map(({ severity, line }) => [severity, line])).toEqual([
+      ['error', 3],
+      ['warning', 7]
+    ]);
+  });
+
+  test("ignores links when stops can be played in any order", () => {
+    const { diagnostics } = parseYamlFormat([fork[0], "playOrder: any", ...fork.slice(1)].join("\n"));
+    expect(diagnostics.map(({ severity }) => severity)).toEqual(['warning']);
+  });
+});
+
+describe("writeYamlItemIds", () => {
+  test("writes IDs first into items that have none", () => {
+    const text = `version: 2\nitems:\n  - id: kept\n    spotifyUrl: ${TRACK}\n  - spotifyUrl: ${TRACK}\n`;
+    const written = writeYamlItemIds(text, [{ ...items[0], id: "kept" }, { ...items[1], id: "stop-2" }]);
+
+    expect(written).toBe(`version: 2\nitems:\n  - id: kept\n    spotifyUrl: ${TRACK}\n  - id: stop-2\n    spotifyUrl: ${TRACK}\n`);
+  });
+
+  test("gives up when the items don't line up", () => {
+    expect(writeYamlItemIds(`- spotifyUrl: ${TRACK}`, items)).toBeNull();
+  });
+});
+
+describe("GPX", () => {
+  test("keeps every field through a round trip", () => {
+    const { items: parsed, diagnostics } = parseGpxFormat(formatAsGpx(items, { name: "Walk" }));
+
+    expect(diagnostics).toEqual([]);
+    expect(parsed).toEqual(items);
+  });
+
+  test("keeps areas and empty lists of dates", () => {
+    const area = [{ lat: 51.5, lng: -0.12 }, { lat: 51.5, lng: -0.11 }, { lat: 51.51, lng: -0.11 }];
+    const stop = { ...items[1], area, availability: { until: "2026-08-31", dates: [], except: ["2026-07-04"] } };
+
+    expect(parseGpxFormat(formatAsGpx([stop])).items).toEqual([stop]);
+  });
+
+  test("leaves the name out of stops without a title", () => {
+    const gpx = formatAsGpx([items[1]]);
+
+    expect(gpx).not.toContain("<name>");
+    expect(parseGpxFormat(gpx).items[0].title).toBeUndefined();
+  });
+
+  test("keeps IDs and links between stops", () => {
+    const { items: parsed, diagnostics } = parseGpxFormat(formatAsGpx(branchingItems, { name: "Walk" }));
+
+    expect(diagnostics).toEqual([]);
+    expect(parsed.map(({ id, next, choicePrompt }) => ({ id, next, choicePrompt }))).toEqual(
+      branchingItems.map(({ id, next, choicePrompt }) => ({ id, next, choicePrompt }))
+    );
+  });
+
+  test("finds the Spotify link in the description when there is no link element", () => {
+    const { items: [item] } = parseGpxFormat(`<?xml version="1.0"?>
+<gpx version="1.1" creator="Other app" xmlns="http://www.topografix.com/GPX/1/1">
+  <wpt lat="51.5" lon="-0.12"><desc>Play ${TRACK} here</desc></wpt>
+</gpx>`);
+
+    expect(item.location).toEqual({ lat: 51.5, lng: -0.12 });
+    expect(item.spotifyUrl).toBe(TRACK);
+  });
+
+  test("reports broken XML by line", () => {
+    const { diagnostics } = parseGpxFormat("<gpx>\n  <wpt lat=\"51.5\" lon=\"-0.12\">\n</gpx>");
+
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0].line).toBe(3);
+    expect(diagnostics[0].message).toStartWith("GPX parsing error");
+  });
+
+  test("needs a <gpx> root", () => {
+    expect(parseGpxFormat("<kml></kml>").diagnostics[0].message).toBe("GPX content has no <gpx> root element.");
+  });
+
+  test("is recognised when pasted in", () => {
+    expect(parsePlacelistText(formatAsGpx(items, { name: "Walk" })).items).toHaveLength(2);
+  });
+});
+
+describe("GeoJSON", () => {
+  test("keeps every field through a round trip", () => {
+    const { items: parsed, diagnostics } = parseGeoJsonFormat(formatAsGeoJson(items, { name: "Walk" }));
+
+    expect(diagnostics).toEqual([]);
+    expect(parsed).toEqual(items);
+  });
+
+  test("keeps IDs and links between stops", () => {
+    const { items: parsed, diagnostics } = parseGeoJsonFormat(formatAsGeoJson(branchingItems));
+
+    expect(diagnostics).toEqual([]);
+    expect(parsed).toEqual(branchingItems);
+  });
+
+  test("writes area stops as polygons and reads them back", () => {
+    const area = [{ lat: 51.5, lng: -0.12 }, { lat: 51.5, lng: -0.11 }, { lat: 51.51, lng: -0.11 }];
+    const geoJson = formatAsGeoJson([{ ...items[1], area }]);
+    const { items: [parsed] } = parseGeoJsonFormat(geoJson);
+
+    expect(JSON.parse(geoJson).features[0].geometry.type).toBe("Polygon");
+    expect(parsed.area).toEqual(area);
+  });
+
+  test("takes the title from a name property", () => {
+    const { items: [item] } = parseGeoJsonFormat(JSON.stringify({
+      type: "FeatureCollection",
+      features: [{ type: "Feature", geometry: { type: "Point", coordinates: [-0.12, 51.5] }, properties: { name: "Bridge", spotifyUrl: TRACK } }]
+    }));
+
+    expect(item.title).toBe("Bridge");
+    expect(item.location).toEqual({ lat: 51.5, lng: -0.12 });
+  });
+
+  test("skips features that aren't points", () => {
+    const { items, diagnostics } = parseGeoJsonFormat(JSON.stringify({
+      type: "FeatureCollection",
+      features: [{ type: "Feature", geometry: { type: "LineString", coordinates: [[0, 0], [1, 1]] }, properties: {} }]
+    }));
+
+    expect(items).toEqual([]);
+    expect(diagnostics[0].message).toStartWith("Feature 1 is not a Point");
+  });
+
+  test("needs a FeatureCollection", () => {
+    expect(parseGeoJsonFormat('{"type": "Feature"}').diagnostics[0].message).toStartWith("GeoJSON content is not a FeatureCollection");
+  });
+});
+
+describe("KML", () => {
+  const kml = `<?xml version="1.0"?>
+<kml xmlns="http://www.opengis.net/kml/2.2"><Document><Folder>
+  <Placemark>
+    <name>Bridge</name>
+    <description><![CDATA[Listen: <a href="${TRACK}">here</a>]]></description>
+    <Point><coordinates>-0.12,51.5,0</coordinates></Point>
+  </Placemark>
+  <Placemark>
+    <name>Cafe</name>
+    <ExtendedData><Data name="song"><value>${TRACK}</value></Data></ExtendedData>
+    <Point><coordinates>-0.13,51.51</coordinates></Point>
+  </Placemark>
+  <Placemark><name>Route</name><LineString><coordinates>0,0 1,1</coordinates></LineString></Placemark>
+</Folder></Document></kml>`;
+
+  test("keeps point placemarks, with the Spotify link from the description or extended data", () => {
+    expect(parseKmlPlacemarks(kml)).toEqual([
+      { location: { lat: 51.5, lng: -0.12 }, spotifyUrl: TRACK, title: "Bridge", description: "Listen: here" },
+      { location: { lat: 51.51, lng: -0.13 }, spotifyUrl: TRACK, title: "Cafe" }
+    ]);
+  });
+
+  test("reads the KML inside a KMZ", () => {
+    const kmz = zipSync({ "doc.kml": strToU8(kml) });
+    expect(parsePlacemarkFile("Walk.KMZ", kmz)).toHaveLength(2);
+  });
+
+  test("turns down other files", () => {
+    expect(() => parsePlacemarkFile("walk.gpx", strToU8(kml))).toThrow("Unsupported file type");
+  });
+});
+
+describe("CSV", () => {
+  test("splits quoted cells, escaped quotes and line breaks with the delimiter of the first line", () => {
+    expect(parseCsv('Name;Notes\n"Cafe; upstairs";"Say ""hi""\nto them"\r\n\n')).toEqual([
+      ["Name", "Notes"],
+      ["Cafe; upstairs", 'Say "hi"\nto them']
+    ]);
+  });
+
+  test("guesses the columns from the headers", () => {
+    expect(guessCsvColumnMapping(["Stop name", "Latitude", "Lon", "Spotify link", "Opening hours"]))
+      .toEqual({ lat: 1, lng: 2, spotifyUrl: 3, onlyDuring: 4, title: null });
+    expect(guessCsvColumnMapping(["Name", "Lat", "Lng", "Song"]).title).toBe(0);
+  });
+
+  test("turns rows into stops and reports the rows it skipped", () => {
+    const mapping = guessCsvColumnMapping(["Name", "Lat", "Lng", "Spotify"]);
+    const { items, errors } = mapCsvRows([["Bridge", "51.5", "-0.12", TRACK], ["Bad", "", "", TRACK]], mapping, 2);
+
+    expect(items).toEqual([{ location: { lat: 51.5, lng: -0.12 }, spotifyUrl: TRACK, trackId: "4uLU6hMCjMI75M1A2tKUQC", title: "Bridge" }]);
+    expect(errors.map(error => error.row)).toEqual([3]);
+  });
+});
+
+describe("patchYamlItems", () => {
+  const text = [
+    "version: 2",
+    "items:",
+    "  # The first stop",
+    "  - location: { lat: 51.5, lng: -0.12 }",
+    `    spotifyUrl: ${TRACK}`,
+    "    title: Old name",
+    "    custom: kept",
+    "  - location: { lat: 51.6, lng: -0.1 }",
+    `    spotifyUrl: ${TRACK}`,
+    ""
+  ].join("\n");
+
+  test("keeps comments and unknown fields when a stop is edited", () => {
+    const patched = patchYamlItems(text, {
+      type: 'update',
+      index: 0,
+      item: { location: { lat: 51.55, lng: -0.12 }, spotifyUrl: TRACK, onlyDuring: "9am-5pm (MO-FR)", clue: "Under the bridge" }
+    });
+
+    expect(patched).toBe([
+      "version: 2",
+      "items:",
+      "  # The first stop",
+      "  - location: { lat: 51.55, lng: -0.12 }",
+      `    spotifyUrl: ${TRACK}`,
+      "    custom: kept",
+      "    onlyDuring: 9am-5pm (MO-FR)",
+      "    clue: Under the bridge",
+      "  - location: { lat: 51.6, lng: -0.1 }",
+      `    spotifyUrl: ${TRACK}`,
+      ""
+    ].join("\n"));
+  });
+
+  test("moves, removes and adds stops", () => {
+    const moved = patchYamlItems(text, { type: 'move', from: 1, to: 0 })!;
+    expect(parseYamlFormat(moved).items.map(item => item.location.lat)).toEqual([51.6, 51.5]);
+
+    const removed = patchYamlItems(text, { type: 'remove', index: 0 })!;
+    expect(parseYamlFormat(removed).items.map(item => item.location.lat)).toEqual([51.6]);
+
+    const added = patchYamlItems(text, { type: 'add', items: [items[1]] })!;
+    expect(parseYamlFormat(added).items.map(item => item.location.lat)).toEqual([51.5, 51.6, 51.51]);
+    expect(added).toContain("# The first stop");
+  });
+
+  test("can't patch text with syntax errors", () => {
+    expect(patchYamlItems("items: [\n", { type: 'remove', index: 0 })).toBeNull();
+  });
+});
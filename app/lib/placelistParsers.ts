@@ -1,7 +1,25 @@
-import { extractSpotifyTrackId } from "./utils";
-import * as yaml from 'js-yaml';
+import { extractSpotifyTrackId, getPolygonCenter, type LatLng } from "./utils";
+import { validateSchedule, type Availability } from "./schedule";
+import { findBrokenLinks, findUnreachableStops, hasBranches } from "./branches";
+import * as yaml from 'yaml';
+import { LineCounter } from 'yaml';
+import {
+  PLACELIST_FORMAT_VERSION,
+  PLAY_ORDERS,
+  assignItemIds,
+  validatePlacelistDocument,
+  upgradePlacelistItems,
+  type PlayOrder
+} from "./placelistSchema";
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import { unzipSync, strFromU8 } from 'fflate';
+
+export type PlacelistFormat = 'yaml' | 'traditional' | 'geojson' | 'gpx';
 
 export type PlacelistItem = {
+  // Identifies the stop for sessions that track which stops have been unlocked. Items
+  // without one are given a new one when read, which is written back when they are saved.
+  id?: string;
   location: {
     lat: number;
     lng: number;
@@ -9,218 +27,1377 @@ export type PlacelistItem = {
   spotifyUrl: string;
   trackId?: string | null;
   onlyDuring?: string;
+  title?: string;
+  // Shown to the player while they are looking for this stop
+  clue?: string;
+  // Shown once the stop is unlocked
+  arrivalText?: string;
+  // Meters from the location within which the stop unlocks, overriding the placelist default
+  radius?: number;
+  // Polygon the player has to be inside to unlock the stop; the location is then its middle
+  area?: LatLng[];
+  // Dates the stop can be played on, on top of its opening hours
+  availability?: Availability;
+  // Stops the route goes on to from here, by ID. Without it the route goes on to the next
+  // item in the list; an empty list ends the route here.
+  next?: StopLink[];
+  // Question put to the player when there is more than one way on
+  choicePrompt?: string;
 }
 
 /**
- * Parse placelist text using legacy format (alternating lines of coordinates and Spotify URLs)
+ * A way on from one stop to another, with what the player is told about it
+ */
+export type StopLink = {
+  stop: string;
+  label?: string;
+}
+
+/**
+ * A point pulled out of an uploaded map file, before the author has reviewed it
+ */
+export type ImportedPlacemark = {
+  location: {
+    lat: number;
+    lng: number;
+  };
+  title?: string;
+  description?: string;
+  spotifyUrl: string | null;
+}
+
+/**
+ * A problem found while parsing placelist text. Line numbers are 1-based and refer to the
+ * source text; they are null when the format doesn't let us pin the problem to a line.
  */
-export function parseTraditionalFormat(textContent: string): PlacelistItem[] {
-  if (!textContent) {
-    return [];
+export type ParseDiagnostic = {
+  severity: 'error' | 'warning';
+  line: number | null;
+  message: string;
+}
+
+/**
+ * Parsed items together with everything that went wrong along the way
+ */
+export type PlacelistParseResult = {
+  format: PlacelistFormat;
+  items: PlacelistItem[];
+  diagnostics: ParseDiagnostic[];
+  name?: string;
+  description?: string;
+  defaultRadius?: number;
+  activeFrom?: string;
+  activeUntil?: string;
+  playOrder?: PlayOrder;
+}
+
+/**
+ * Whether any diagnostic is serious enough to stop the placelist being saved
+ */
+export function hasParseErrors(diagnostics: ParseDiagnostic[]): boolean {
+  return diagnostics.some(diagnostic => diagnostic.severity === 'error');
+}
+
+/**
+ * Check a parsed item for problems that don't stop it being read but will trip up players:
+ * out-of-range coordinates and bad schedules are errors, a non-track Spotify link is a warning.
+ */
+function checkPlacelistItem(item: PlacelistItem, line: number | null, label: string): ParseDiagnostic[] {
+  const diagnostics: ParseDiagnostic[] = [];
+  const { lat, lng } = item.location;
+  
+  if (lat < -90 || lat > 90) {
+    diagnostics.push({ severity: 'error', line, message: `Latitude ${lat} for ${label} is out of range (-90 to 90).` });
   }
   
-  try {
-    // Filter out empty lines and collect non-empty lines
-    const filteredLines = textContent.split('\n')
-      .map(line => line.trim())
-      .filter(line => line.length > 0);
+  if (lng < -180 || lng > 180) {
+    diagnostics.push({ severity: 'error', line, message: `Longitude ${lng} for ${label} is out of range (-180 to 180).` });
+  }
+  
+  if (!item.trackId) {
+    diagnostics.push({ severity: 'warning', line, message: `Spotify link for ${label} is not a track link, so it can't be played in the embed.` });
+  }
+  
+  if (item.area?.some(point => Math.abs(point.lat) > 90 || Math.abs(point.lng) > 180)) {
+    diagnostics.push({ severity: 'error', line, message: `Unlock area for ${label} has a point out of range.` });
+  }
+  
+  if (item.area && item.radius !== undefined) {
+    diagnostics.push({ severity: 'warning', line, message: `Unlock radius for ${label} is ignored because it has an unlock area.` });
+  }
+  
+  const { from, until } = item.availability ?? {};
+  if (from && until && from > until) {
+    diagnostics.push({ severity: 'error', line, message: `Availability for ${label} ends (${until}) before it starts (${from}).` });
+  }
+  
+  if (item.onlyDuring) {
+    const scheduleError = validateSchedule(item.onlyDuring);
+    if (scheduleError) {
+      diagnostics.push({ severity: 'error', line, message: `Opening hours for ${label} can't be read (${scheduleError}).` });
+    }
+  }
+  
+  return diagnostics;
+}
+
+/**
+ * Whether a line of legacy text is a Spotify link
+ */
+function isSpotifyLine(line: string): boolean {
+  return line.includes("spotify.com") || line.includes("spotify:track:");
+}
+
+/**
+ * Parse placelist text using legacy format (alternating lines of coordinates and Spotify URLs)
+ */
+export function parseTraditionalFormat(textContent: string): PlacelistParseResult {
+  const items: PlacelistItem[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  
+  // Location waiting for its Spotify link, with the line it came from
+  let pending: { location: { lat: number; lng: number }; line: number } | null = null;
+  
+  const lines = textContent.split('\n');
+  
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const lineNumber = i + 1;
     
-    const items: PlacelistItem[] = [];
-    let currentLocation: { lat: number; lng: number } | null = null;
+    if (line.length === 0) {
+      continue;
+    }
     
-    // Process each non-empty line
-    for (let i = 0; i < filteredLines.length; i++) {
-      const line = filteredLines[i];
+    // Check if line looks like a location (two numbers separated by a comma)
+    if (/^-?\d+\.?\d*\s*,\s*-?\d+\.?\d*$/.test(line)) {
+      if (pending) {
+        diagnostics.push({
+          severity: 'error',
+          line: pending.line,
+          message: `Location on line ${pending.line} has no Spotify link after it, so it was skipped.`
+        });
+      }
       
-      // Check if line looks like a location (contains comma and numbers)
-      if (line.includes(",") && /^-?\d+\.?\d*,-?\d+\.?\d*$/.test(line)) {
-        try {
-          // Parse location
-          const [lat, lng] = line.split(",").map(Number);
-          if (!isNaN(lat) && !isNaN(lng)) {
-            // Check if next line is a Spotify URL
-            if (i + 1 < filteredLines.length) {
-              const nextLine = filteredLines[i + 1];
-              
-              if (nextLine.includes("spotify.com") || nextLine.includes("spotify:track:")) {
-                const trackId = extractSpotifyTrackId(nextLine);
-                
-                items.push({
-                  location: { lat, lng },
-                  spotifyUrl: nextLine,
-                  trackId
-                });
-                
-                // Skip the Spotify URL line in the next iteration
-                i++;
-              } else {
-                // Store current location for potential matching with a later Spotify URL
-                currentLocation = { lat, lng };
-              }
-            } else {
-              // This is the last line and it's a location
-              currentLocation = { lat, lng };
-            }
-          }
-        } catch (err) {
-          // Invalid location format
-          continue;
-        }
-      } 
-      // If line is a Spotify URL and we have a pending location
-      else if (currentLocation && (line.includes("spotify.com") || line.includes("spotify:track:"))) {
-        const trackId = extractSpotifyTrackId(line);
-        
-        items.push({
-          location: currentLocation,
-          spotifyUrl: line,
-          trackId
+      const [lat, lng] = line.split(",").map(Number);
+      pending = { location: { lat, lng }, line: lineNumber };
+    } 
+    // If line is a Spotify URL, pair it with the pending location
+    else if (isSpotifyLine(line)) {
+      if (!pending) {
+        diagnostics.push({
+          severity: 'error',
+          line: lineNumber,
+          message: `Spotify link on line ${lineNumber} has no location before it, so it was skipped.`
         });
-        
-        // Reset the current location
-        currentLocation = null;
+        continue;
       }
+      
+      const item: PlacelistItem = {
+        location: pending.location,
+        spotifyUrl: line,
+        trackId: extractSpotifyTrackId(line)
+      };
+      
+      items.push(item);
+      diagnostics.push(...checkPlacelistItem(item, pending.line, `the stop on line ${pending.line}`));
+      pending = null;
+    }
+    // Anything else is ignored, but URLs are most likely a wrong link rather than a note
+    else if (/^[a-z]+:\/\//i.test(line)) {
+      diagnostics.push({
+        severity: 'error',
+        line: lineNumber,
+        message: `Unrecognised URL on line ${lineNumber}. Each location needs a Spotify track link.`
+      });
+    } else {
+      diagnostics.push({
+        severity: 'warning',
+        line: lineNumber,
+        message: `Line ${lineNumber} is neither a location nor a Spotify link and was ignored.`
+      });
+    }
+  }
+  
+  if (pending) {
+    diagnostics.push({
+      severity: 'error',
+      line: pending.line,
+      message: `Location on line ${pending.line} has no Spotify link after it, so it was skipped.`
+    });
+  }
+  
+  return { format: 'traditional', items, diagnostics };
+}
+
+/**
+ * Validate a raw item object (from YAML, GPX, etc.) and convert it to a PlacelistItem.
+ * The label names the item in error messages, e.g. "row 4" for CSV imports.
+ */
+export function normalizePlacelistItem(
+  item: any,
+  index: number,
+  label: string = `item at index ${index}`
+): PlacelistItem {
+  // Validate item structure
+  if (!item || typeof item !== 'object') {
+    throw new Error(`Entry for ${label} is not an object. Each item should have location and spotifyUrl properties.`);
+  }
+  
+  const area = normalizeArea(item.area, label);
+  const availability = normalizeAvailability(item.availability, label);
+  
+  // Validate location; area stops can leave it out and use the middle of the area
+  const location = item.location ?? (area && getPolygonCenter(area));
+  if (!location || typeof location !== 'object') {
+    throw new Error(`Location missing or invalid for ${label}. Each item needs a location object with lat and lng properties.`);
+  }
+  
+  // Validate coordinates
+  const lat = Number(location.lat);
+  const lng = Number(location.lng);
+  
+  if (isNaN(lat) || isNaN(lng)) {
+    throw new Error(`Invalid coordinates for ${label}. Latitude and longitude must be numbers.`);
+  }
+  
+  // Validate Spotify URL
+  if (!item.spotifyUrl || typeof item.spotifyUrl !== 'string') {
+    throw new Error(`Spotify URL missing or invalid for ${label}. Each item needs a spotifyUrl property.`);
+  }
+  
+  // Check if onlyDuring field exists and is a string
+  const onlyDuring = item.onlyDuring && typeof item.onlyDuring === 'string' 
+    ? item.onlyDuring 
+    : undefined;
+  
+  // Same for the optional title and narrative text
+  const optionalText = (value: unknown) => value && typeof value === 'string' ? value : undefined;
+  // Unlock radius is optional, but must be a positive distance when given
+  let radius: number | undefined;
+  if (item.radius !== undefined && item.radius !== null && item.radius !== '') {
+    radius = Number(item.radius);
+    if (isNaN(radius) || radius <= 0) {
+      throw new Error(`Invalid unlock radius for ${label}. The radius must be a positive number of meters.`);
     }
+  }
+  
+  // IDs are usually words, but a bare number in YAML is fine too
+  const id = typeof item.id === 'number' ? String(item.id) : optionalText(item.id);
+  const title = optionalText(item.title);
+  const clue = optionalText(item.clue);
+  const arrivalText = optionalText(item.arrivalText);
+  const next = normalizeStopLinks(item.next, label);
+  const choicePrompt = optionalText(item.choicePrompt);
     
-    return items;
-  } catch (err) {
-    console.error("Error parsing placelist text in traditional format:", err);
-    return [];
+  // Build the item with extracted track ID and optional fields
+  return {
+    ...(id && { id }),
+    location: { lat, lng },
+    spotifyUrl: item.spotifyUrl,
+    trackId: extractSpotifyTrackId(item.spotifyUrl),
+    ...(onlyDuring && { onlyDuring }),
+    ...(title && { title }),
+    ...(clue && { clue }),
+    ...(arrivalText && { arrivalText }),
+    ...(radius !== undefined && { radius }),
+    ...(area && { area }),
+    ...(availability && { availability }),
+    ...(next && { next }),
+    ...(choicePrompt && { choicePrompt })
+  };
+}
+
+/**
+ * Validate the links to the stops that follow. Each can be written as just the stop's ID or
+ * as {stop, label}, and a single link doesn't need to be in a list. Returns undefined when
+ * the item has no links.
+ */
+function normalizeStopLinks(next: unknown, label: string): StopLink[] | undefined {
+  if (next === undefined || next === null) {
+    return undefined;
   }
+  
+  const links = Array.isArray(next) ? next : [next];
+  
+  return links.map(link => {
+    if (typeof link === 'string' || typeof link === 'number') {
+      return { stop: String(link) };
+    }
+    
+    if (link && typeof link === 'object' && (typeof link.stop === 'string' || typeof link.stop === 'number')) {
+      return {
+        stop: String(link.stop),
+        ...(link.label && typeof link.label === 'string' && { label: link.label })
+      };
+    }
+    
+    throw new Error(`Invalid next stop for ${label}. Give the ID of the stop that follows, or a {stop, label} pair.`);
+  });
 }
 
 /**
- * Parse placelist text using YAML format
+ * Validate an unlock area: a list of at least three points, each written as a {lat, lng}
+ * object or a [lat, lng] pair. Returns undefined when the item has no area.
  */
-export function parseYamlFormat(textContent: string): PlacelistItem[] {
-  if (!textContent) {
-    return [];
+function normalizeArea(area: unknown, label: string): LatLng[] | undefined {
+  if (area === undefined || area === null) {
+    return undefined;
   }
   
-  try {
-    // First try to parse the YAML content
-    let parsed;
-    try {
-      parsed = yaml.load(textContent);
-    } catch (yamlError: any) {
-      // Provide more helpful error message for YAML parsing errors
-      const errorMsg = yamlError.message || 'Unknown YAML parsing error';
-      const lineInfo = yamlError.mark ? ` at line ${yamlError.mark.line + 1}` : '';
-      throw new Error(`YAML parsing error${lineInfo}: ${errorMsg}`);
+  if (!Array.isArray(area) || area.length < 3) {
+    throw new Error(`Invalid unlock area for ${label}. An area needs a list of at least three points.`);
+  }
+  
+  return area.map(point => {
+    const [lat, lng] = Array.isArray(point)
+      ? [Number(point[0]), Number(point[1])]
+      : [Number(point?.lat), Number(point?.lng)];
+    
+    if (isNaN(lat) || isNaN(lng)) {
+      throw new Error(`Invalid unlock area for ${label}. Each point needs a numeric latitude and longitude.`);
     }
     
-    // Check if parsed result is an array
-    if (!Array.isArray(parsed)) {
-      throw new Error("YAML content is not an array. Make sure your YAML starts with '-' for each item.");
+    return { lat, lng };
+  });
+}
+
+/**
+ * Whether a value is a real calendar date written as YYYY-MM-DD
+ */
+export function isIsoDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Validate availability limits: `from` and `until` dates and `dates`/`except` lists, all
+ * written as YYYY-MM-DD. Returns undefined when the item has none.
+ */
+function normalizeAvailability(availability: unknown, label: string): Availability | undefined {
+  if (availability === undefined || availability === null) {
+    return undefined;
+  }
+  
+  if (typeof availability !== 'object' || Array.isArray(availability)) {
+    throw new Error(`Invalid availability for ${label}. Availability needs from, until, dates or except fields.`);
+  }
+  
+  const { from, until, dates, except } = availability as Record<string, unknown>;
+  const checkDate = (value: unknown) => {
+    if (!isIsoDate(value)) {
+      throw new Error(`Invalid date ${JSON.stringify(value)} in the availability for ${label}. Dates are written as YYYY-MM-DD.`);
+    }
+    return value;
+  };
+  const checkDates = (value: unknown) => {
+    if (!Array.isArray(value)) {
+      throw new Error(`Invalid availability for ${label}. Dates and exceptions are lists of YYYY-MM-DD dates.`);
+    }
+    return value.map(checkDate);
+  };
+  
+  const result: Availability = {
+    ...(from !== undefined && from !== null && { from: checkDate(from) }),
+    ...(until !== undefined && until !== null && { until: checkDate(until) }),
+    ...(dates !== undefined && dates !== null && { dates: checkDates(dates) }),
+    ...(except !== undefined && except !== null && { except: checkDates(except) })
+  };
+  
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Parse placelist text using YAML format. Accepts a versioned document (a mapping with
+ * `version` and `items`) or, for older placelists, a bare list of items (version 1).
+ */
+export function parseYamlFormat(textContent: string): PlacelistParseResult {
+  const items: PlacelistItem[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  const result: PlacelistParseResult = { format: 'yaml', items, diagnostics };
+  
+  const lineCounter = new LineCounter();
+  const doc = yaml.parseDocument(textContent, { lineCounter });
+  
+  // Line on which the node at a document path starts, if there is such a node
+  const lineAt = (path: Array<string | number>): number | null => {
+    const node = doc.getIn(path, true);
+    return yaml.isNode(node) && node.range ? lineCounter.linePos(node.range[0]).line : null;
+  };
+  
+  // Syntax errors make the rest of the document unreliable, so stop at them
+  if (doc.errors.length > 0) {
+    for (const yamlError of doc.errors) {
+      diagnostics.push({
+        severity: 'error',
+        line: yamlError.linePos?.[0].line ?? null,
+        message: `YAML parsing error: ${yamlError.message.split('\n')[0].replace(/:$/, '')}`
+      });
+    }
+    return result;
+  }
+  
+  if (doc.contents === null) {
+    return result;
+  }
+  
+  // Work out the document version and where the items live
+  let version = 1;
+  let itemsPath: Array<string | number> = [];
+  
+  if (yaml.isMap(doc.contents)) {
+    const header = doc.toJS();
+    version = header.version;
+    itemsPath = ['items'];
+    
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+      diagnostics.push({
+        severity: 'error',
+        line: lineAt(['version']) ?? 1,
+        message: "Placelist document needs a whole-number `version` field."
+      });
+      return result;
     }
     
-    if (parsed.length === 0) {
-      return [];
+    if (version > PLACELIST_FORMAT_VERSION) {
+      diagnostics.push({
+        severity: 'error',
+        line: lineAt(['version']),
+        message: `Placelist document is version ${version}, but this editor only understands up to version ${PLACELIST_FORMAT_VERSION}.`
+      });
+      return result;
     }
     
-    // Map and validate each item
-    return parsed.map((item: any, index: number) => {
-      // Validate item structure
-      if (!item || typeof item !== 'object') {
-        throw new Error(`Item at index ${index} is not an object. Each item should have location and spotifyUrl properties.`);
-      }
+    if (typeof header.name === 'string') result.name = header.name;
+    if (typeof header.description === 'string') result.description = header.description;
+    if (typeof header.defaultRadius === 'number') result.defaultRadius = header.defaultRadius;
+    if (isIsoDate(header.activeFrom)) result.activeFrom = header.activeFrom;
+    if (isIsoDate(header.activeUntil)) result.activeUntil = header.activeUntil;
+    if (PLAY_ORDERS.includes(header.playOrder)) result.playOrder = header.playOrder;
+  }
+  
+  const itemsNode = itemsPath.length > 0 ? doc.getIn(itemsPath, true) : doc.contents;
+  
+  // Check if the items are an array
+  if (!yaml.isSeq(itemsNode)) {
+    diagnostics.push({
+      severity: 'error',
+      line: itemsPath.length > 0 ? lineAt(itemsPath) ?? 1 : 1,
+      message: itemsPath.length > 0
+        ? "Placelist document needs an `items` list, with '-' before each item."
+        : "YAML content is not an array. Make sure your YAML starts with '-' for each item."
+    });
+    return result;
+  }
+  
+  // Older documents are upgraded item by item, so each item keeps its own line number
+  const seenIds = new Set<string>();
+  const itemLines: Array<number | null> = [];
+  const itemLabels: string[] = [];
+  itemsNode.items.forEach((node, index) => {
+    const line = lineAt([...itemsPath, index]);
+    const label = line ? `the item on line ${line}` : `item at index ${index}`;
+    const rawItem = yaml.isNode(node) ? node.toJS(doc) : node;
+    
+    try {
+      const [upgraded] = upgradePlacelistItems([rawItem], version);
+      const item = normalizePlacelistItem(upgraded, index, label);
+      items.push(item);
+      itemLines.push(line);
+      itemLabels.push(label);
+      diagnostics.push(...checkPlacelistItem(item, line, label));
       
-      // Validate location
-      if (!item.location || typeof item.location !== 'object') {
-        throw new Error(`Location missing or invalid for item at index ${index}. Each item needs a location object with lat and lng properties.`);
+      if (item.id && seenIds.has(item.id)) {
+        diagnostics.push({ severity: 'error', line, message: `The ID "${item.id}" of ${label} is already used by another stop.` });
       }
+      if (item.id) seenIds.add(item.id);
+    } catch (err: any) {
+      diagnostics.push({ severity: 'error', line, message: `${err.message} It was skipped.` });
+    }
+  });
+  
+  // Links to the next stop can only be checked once every stop has been read. Stops without
+  // an ID can't be linked to until they are given one.
+  if (hasBranches(items)) {
+    const linkedItems = assignItemIds(items);
+    
+    for (const { item, link } of findBrokenLinks(linkedItems)) {
+      const index = linkedItems.indexOf(item);
+      diagnostics.push({
+        severity: 'error',
+        line: itemLines[index],
+        message: `There is no stop with the ID "${link.stop}" for ${itemLabels[index]} to lead on to.`
+      });
+    }
+    
+    for (const item of findUnreachableStops(linkedItems)) {
+      const index = linkedItems.indexOf(item);
+      diagnostics.push({
+        severity: 'warning',
+        line: itemLines[index],
+        message: `No route from the first stop leads to ${itemLabels[index]}, so it can't be played.`
+      });
+    }
+    
+    if (result.playOrder === 'any') {
+      diagnostics.push({
+        severity: 'warning',
+        line: lineAt(['playOrder']),
+        message: "Links to the next stop are ignored because stops can be played in any order."
+      });
+    }
+  }
+  
+  // Whatever the checks above missed (e.g. a header field of the wrong type) the schema catches
+  if (!hasParseErrors(diagnostics)) {
+    const schemaErrors = validatePlacelistDocument({
+      ...(itemsPath.length > 0 ? doc.toJS() : {}),
+      version: PLACELIST_FORMAT_VERSION,
+      items
+    });
+    
+    for (const schemaError of schemaErrors) {
+      const path = schemaError.path[0] === 'items' && itemsPath.length === 0
+        ? schemaError.path.slice(1)
+        : schemaError.path;
+      diagnostics.push({ severity: 'error', line: lineAt(path), message: `Schema error: ${schemaError.message}` });
+    }
+  }
+  
+  return result;
+}
+
+/**
+ * Find the first Spotify link in a piece of free text (e.g. a GPX description)
+ */
+function findSpotifyUrl(text: string): string | null {
+  const match = text.match(/https?:\/\/open\.spotify\.com\/[^\s"<>]+|spotify:track:[a-zA-Z0-9]+/);
+  return match ? match[0] : null;
+}
+
+/**
+ * Read the text content of a parsed XML node, whether or not it carried attributes
+ */
+function xmlText(node: any): string {
+  if (node === undefined || node === null) return '';
+  if (typeof node === 'object') return String(node['#text'] ?? '').trim();
+  return String(node).trim();
+}
+
+/**
+ * Parse placelist text using GPX format (one <wpt> per stop, in document order)
+ */
+export function parseGpxFormat(textContent: string): PlacelistParseResult {
+  const items: PlacelistItem[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  const result: PlacelistParseResult = { format: 'gpx', items, diagnostics };
+  
+  // The parser is lenient, so run the validator first to get line-numbered syntax errors
+  const validation = XMLValidator.validate(textContent);
+  if (validation !== true) {
+    diagnostics.push({
+      severity: 'error',
+      line: validation.err.line,
+      message: `GPX parsing error: ${validation.err.msg}`
+    });
+    return result;
+  }
+  
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    parseTagValue: false,
+    parseAttributeValue: false,
+    isArray: (name) => ['wpt', 'link', 'next', 'point', 'date'].includes(name)
+  });
+  
+  const parsed = parser.parse(textContent);
+  
+  if (!parsed?.gpx) {
+    diagnostics.push({ severity: 'error', line: null, message: "GPX content has no <gpx> root element." });
+    return result;
+  }
+  
+  const waypoints: any[] = parsed.gpx.wpt || [];
+  
+  waypoints.forEach((wpt, index) => {
+    const links: any[] = wpt.link || [];
+    const description = xmlText(wpt.desc);
+    const label = `waypoint ${index + 1}`;
+    
+    // Prefer an explicit Spotify link, then fall back to a URL mentioned in the description
+    const spotifyLink = links
+      .map(link => String(link['@_href'] || ''))
+      .find(href => href.includes('spotify.com') || href.includes('spotify:track:'));
+    
+    // Links to the next stops, if the waypoint has them; an empty list ends the route here
+    const extensions = wpt.extensions && typeof wpt.extensions === 'object' ? wpt.extensions : {};
+    const next = 'nextStops' in extensions
+      ? (extensions.nextStops?.next || []).map((link: any) => ({ stop: link['@_stop'], label: xmlText(link) }))
+      : undefined;
+    
+    const area = 'area' in extensions
+      ? (extensions.area?.point || []).map((point: any) => ({ lat: point['@_lat'], lng: point['@_lon'] }))
+      : undefined;
+    
+    // Lists of dates are kept even when empty, as YAML keeps them
+    const availabilityNode = typeof extensions.availability === 'object' ? extensions.availability : undefined;
+    const dateList = (key: string) => key in availabilityNode
+      ? (availabilityNode[key]?.date || []).map(xmlText)
+      : undefined;
+    const availability = availabilityNode !== undefined ? {
+      from: availabilityNode['@_from'],
+      until: availabilityNode['@_until'],
+      dates: dateList('dates'),
+      except: dateList('except')
+    } : undefined;
+    
+    try {
+      const item = normalizePlacelistItem({
+        id: xmlText(extensions.id),
+        location: { lat: wpt['@_lat'], lng: wpt['@_lon'] },
+        spotifyUrl: spotifyLink || findSpotifyUrl(description),
+        title: xmlText(wpt.name),
+        onlyDuring: xmlText(extensions.onlyDuring),
+        clue: xmlText(extensions.clue),
+        arrivalText: xmlText(extensions.arrivalText),
+        radius: xmlText(extensions.radius),
+        area,
+        availability,
+        next,
+        choicePrompt: xmlText(extensions.choicePrompt)
+      }, index, label);
+      items.push(item);
+      diagnostics.push(...checkPlacelistItem(item, null, label));
+    } catch (err: any) {
+      diagnostics.push({ severity: 'error', line: null, message: `${err.message} It was skipped.` });
+    }
+  });
+  
+  return result;
+}
+
+/**
+ * Parse placelist text using GeoJSON format (a FeatureCollection of Point features)
+ */
+export function parseGeoJsonFormat(textContent: string): PlacelistParseResult {
+  const items: PlacelistItem[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  const result: PlacelistParseResult = { format: 'geojson', items, diagnostics };
+  
+  let parsed;
+  try {
+    parsed = JSON.parse(textContent);
+  } catch (jsonError: any) {
+    diagnostics.push({
+      severity: 'error',
+      line: null,
+      message: `GeoJSON parsing error: ${jsonError.message || 'Unknown JSON parsing error'}`
+    });
+    return result;
+  }
+  
+  if (!parsed || parsed.type !== 'FeatureCollection' || !Array.isArray(parsed.features)) {
+    diagnostics.push({
+      severity: 'error',
+      line: null,
+      message: "GeoJSON content is not a FeatureCollection. Wrap your points in { \"type\": \"FeatureCollection\", \"features\": [...] }."
+    });
+    return result;
+  }
+  
+  parsed.features.forEach((feature: any, index: number) => {
+    const label = `feature ${index + 1}`;
+    
+    const geometryType = feature?.geometry?.type;
+    
+    if ((geometryType !== 'Point' && geometryType !== 'Polygon') || !Array.isArray(feature.geometry.coordinates)) {
+      diagnostics.push({
+        severity: 'error',
+        line: null,
+        message: `Feature ${index + 1} is not a Point or Polygon, so it was skipped. Each stop must be a Point or Polygon feature.`
+      });
+      return;
+    }
+    
+    const properties = feature.properties || {};
+    
+    try {
+      // GeoJSON positions are [longitude, latitude]; a polygon's outer ring repeats its first point at the end
+      const place = geometryType === 'Point'
+        ? { location: { lat: feature.geometry.coordinates[1], lng: feature.geometry.coordinates[0] } }
+        : { area: (feature.geometry.coordinates[0] || []).slice(0, -1).map(([lng, lat]: number[]) => ({ lat, lng })) };
       
-      // Validate coordinates
-      const lat = Number(item.location.lat);
-      const lng = Number(item.location.lng);
+      const item = normalizePlacelistItem({
+        ...properties,
+        id: properties.id ?? feature.id,
+        title: properties.title ?? properties.name,
+        ...place
+      }, index, label);
+      items.push(item);
+      diagnostics.push(...checkPlacelistItem(item, null, label));
+    } catch (err: any) {
+      diagnostics.push({ severity: 'error', line: null, message: `${err.message} It was skipped.` });
+    }
+  });
+  
+  return result;
+}
+
+/**
+ * Collect every Placemark in a parsed KML tree, however deeply it is nested in Documents and Folders
+ */
+function collectKmlPlacemarks(node: any, found: any[] = []): any[] {
+  if (!node || typeof node !== 'object') {
+    return found;
+  }
+  
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'Placemark') {
+      found.push(...(value as any[]));
+    } else if (Array.isArray(value)) {
+      value.forEach(child => collectKmlPlacemarks(child, found));
+    } else {
+      collectKmlPlacemarks(value, found);
+    }
+  }
+  
+  return found;
+}
+
+/**
+ * Parse a KML document (e.g. a Google My Maps export) into placemarks for review.
+ * Only Point placemarks are kept; the Spotify link is picked up from the description
+ * or any ExtendedData value, and left null when there isn't one.
+ */
+export function parseKmlPlacemarks(textContent: string): ImportedPlacemark[] {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: '@_',
+    removeNSPrefix: true,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    isArray: (name) => name === 'Placemark' || name === 'Data'
+  });
+  
+  let parsed;
+  try {
+    parsed = parser.parse(textContent);
+  } catch (xmlError: any) {
+    throw new Error(`KML parsing error: ${xmlError.message || 'Unknown XML parsing error'}`);
+  }
+  
+  if (!parsed?.kml) {
+    throw new Error("KML content has no <kml> root element.");
+  }
+  
+  return collectKmlPlacemarks(parsed.kml)
+    .filter(placemark => placemark.Point?.coordinates)
+    .map(placemark => {
+      // KML coordinates are "lng,lat[,altitude]"
+      const [lng, lat] = xmlText(placemark.Point.coordinates).split(',').map(Number);
+      const description = xmlText(placemark.description);
+      const extendedValues: string[] = (placemark.ExtendedData?.Data || [])
+        .map((data: any) => xmlText(data.value));
       
-      if (isNaN(lat) || isNaN(lng)) {
-        throw new Error(`Invalid coordinates for item at index ${index}. Latitude and longitude must be numbers.`);
-      }
+      const spotifyUrl = [description, ...extendedValues]
+        .map(findSpotifyUrl)
+        .find(Boolean) || null;
       
-      // Validate Spotify URL
-      if (!item.spotifyUrl || typeof item.spotifyUrl !== 'string') {
-        throw new Error(`Spotify URL missing or invalid for item at index ${index}. Each item needs a spotifyUrl property.`);
-      }
+      const title = xmlText(placemark.name);
+      const plainDescription = description.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
       
-      // Check if onlyDuring field exists and is a string
-      const onlyDuring = item.onlyDuring && typeof item.onlyDuring === 'string' 
-        ? item.onlyDuring 
-        : undefined;
-        
-      // Build the item with extracted track ID and optional onlyDuring field
       return {
         location: { lat, lng },
-        spotifyUrl: item.spotifyUrl,
-        trackId: extractSpotifyTrackId(item.spotifyUrl),
-        ...(onlyDuring && { onlyDuring })
+        spotifyUrl,
+        ...(title && { title }),
+        ...(plainDescription && { description: plainDescription })
       };
-    });
-  } catch (err) {
-    console.error("Error parsing placelist text as YAML:", err);
-    throw err;
-  }
+    })
+    .filter(placemark => !isNaN(placemark.location.lat) && !isNaN(placemark.location.lng));
 }
 
 /**
- * Parse placelist text with fallback (try YAML first, fall back to traditional format)
+ * Parse an uploaded KML or KMZ file into placemarks for review
  */
-export function parsePlacelistText(textContent: string): PlacelistItem[] {
-  if (!textContent) {
-    return [];
+export function parsePlacemarkFile(fileName: string, bytes: Uint8Array): ImportedPlacemark[] {
+  const lowerName = fileName.toLowerCase();
+  
+  if (lowerName.endsWith('.kmz')) {
+    // A KMZ is a zip archive whose main document is the first .kml entry (usually doc.kml)
+    let entries;
+    try {
+      entries = unzipSync(bytes);
+    } catch {
+      throw new Error("KMZ file could not be unzipped. Make sure it is a valid KMZ export.");
+    }
+    
+    const kmlEntry = Object.keys(entries).find(name => name.toLowerCase().endsWith('.kml'));
+    if (!kmlEntry) {
+      throw new Error("KMZ file does not contain a KML document.");
+    }
+    
+    return parseKmlPlacemarks(strFromU8(entries[kmlEntry]));
   }
   
-  try {
-    // Try to parse as YAML first
-    return parseYamlFormat(textContent);
-  } catch (err: any) {
-    // Log error but don't expose to user
-    console.log(`Couldn't parse as YAML (${err.message}), falling back to traditional format`);
-    
-    // Fall back to traditional parsing
-    const items = parseTraditionalFormat(textContent);
-    
-    // If we parsed items successfully with the traditional parser, log that for debugging
-    if (items.length > 0) {
-      console.log(`Successfully parsed ${items.length} items using traditional format`);
+  if (lowerName.endsWith('.kml')) {
+    return parseKmlPlacemarks(strFromU8(bytes));
+  }
+  
+  throw new Error("Unsupported file type. Upload a .kml or .kmz file.");
+}
+
+/**
+ * Columns of a CSV file that can be mapped onto placelist item fields
+ */
+export type CsvField = 'lat' | 'lng' | 'spotifyUrl' | 'onlyDuring' | 'title';
+
+/**
+ * Which column index (if any) supplies each item field
+ */
+export type CsvColumnMapping = Record<CsvField, number | null>;
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells, escaped quotes and line breaks
+ * inside quotes, and picks comma, semicolon or tab as the delimiter from the first line.
+ */
+export function parseCsv(textContent: string): string[][] {
+  const firstLine = textContent.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+  
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  
+  for (let i = 0; i < textContent.length; i++) {
+    const char = textContent[i];
+    
+    if (inQuotes) {
+      if (char === '"' && textContent[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      // Treat \r\n as a single line break
+      if (char === '\r' && textContent[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
     } else {
-      console.log("Traditional parser also failed to find any valid items");
+      cell += char;
     }
+  }
+  
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  
+  // Drop blank lines
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+/**
+ * Guess the column mapping from a CSV header row
+ */
+export function guessCsvColumnMapping(headers: string[]): CsvColumnMapping {
+  const patterns: Record<CsvField, RegExp> = {
+    lat: /^(lat|latitude)$/,
+    lng: /^(lng|lon|long|longitude)$/,
+    spotifyUrl: /^(spotify|spotifyurl|spotifylink|track|song|url|link)$/,
+    onlyDuring: /^(onlyduring|schedule|hours|openinghours)$/,
+    title: /^(title|name|stop)$/
+  };
+  
+  const normalized = headers.map(header => header.toLowerCase().replace(/[^a-z]/g, ''));
+  const mapping = {} as CsvColumnMapping;
+  
+  for (const field of Object.keys(patterns) as CsvField[]) {
+    const index = normalized.findIndex(header => patterns[field].test(header));
+    mapping[field] = index === -1 ? null : index;
+  }
+  
+  return mapping;
+}
+
+/**
+ * Turn CSV rows into placelist items using a column mapping, validating each row the same
+ * way YAML items are validated. Invalid rows are skipped and reported by their row number.
+ */
+export function mapCsvRows(
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  firstRowNumber: number = 1
+): { items: PlacelistItem[]; errors: Array<{ row: number; message: string }> } {
+  const items: PlacelistItem[] = [];
+  const errors: Array<{ row: number; message: string }> = [];
+  
+  // Empty cells count as missing rather than as zero
+  const cellValue = (cells: string[], field: CsvField) => {
+    const index = mapping[field];
+    const value = index === null ? '' : (cells[index] || '').trim();
+    return value || undefined;
+  };
+  
+  rows.forEach((cells, i) => {
+    const rowNumber = firstRowNumber + i;
     
-    return items;
+    try {
+      items.push(normalizePlacelistItem({
+        location: { lat: cellValue(cells, 'lat'), lng: cellValue(cells, 'lng') },
+        spotifyUrl: cellValue(cells, 'spotifyUrl'),
+        onlyDuring: cellValue(cells, 'onlyDuring'),
+        title: cellValue(cells, 'title')
+      }, i, `row ${rowNumber}`));
+    } catch (err: any) {
+      errors.push({ row: rowNumber, message: err.message });
+    }
+  });
+  
+  return { items, errors };
+}
+
+/**
+ * Guess which format a piece of placelist text is written in
+ */
+export function detectPlacelistFormat(textContent: string): PlacelistFormat {
+  const trimmed = textContent.trimStart();
+  
+  if (trimmed.startsWith('<')) {
+    return 'gpx';
+  }
+  if (trimmed.startsWith('{')) {
+    return 'geojson';
+  }
+  if (!trimmed) {
+    return 'yaml';
   }
+  
+  // Legacy lines never contain "- " list markers or "key: " pairs, so either one means
+  // YAML, even if it has syntax errors that should be reported rather than ignored
+  return /^\s*(- |-$|[A-Za-z_]+:(\s|$))/m.test(textContent) ? 'yaml' : 'traditional';
+}
+
+/**
+ * Parse placelist text in whichever supported format it is written in
+ */
+export function parsePlacelistText(textContent: string): PlacelistParseResult {
+  const format = detectPlacelistFormat(textContent);
+  
+  if (!textContent.trim()) {
+    return { format, items: [], diagnostics: [] };
+  }
+  
+  const parse = {
+    gpx: parseGpxFormat,
+    geojson: parseGeoJsonFormat,
+    traditional: parseTraditionalFormat,
+    yaml: parseYamlFormat
+  }[format];
+  const result = parse(textContent);
+  
+  return { ...result, items: assignItemIds(result.items) };
 }
 
 /**
- * Format placelist items as YAML text
+ * Shape a single item the way it is written in YAML (the track ID is derived, so left out)
+ */
+function toYamlItem(item: PlacelistItem): Record<string, any> {
+  const yamlItem: Record<string, any> = {
+    ...(item.id && { id: item.id }),
+    location: {
+      lat: item.location.lat,
+      lng: item.location.lng
+    },
+    spotifyUrl: item.spotifyUrl
+  };
+  
+  // Add onlyDuring field if it exists
+  if (item.onlyDuring) {
+    yamlItem.onlyDuring = item.onlyDuring;
+  }
+  
+  // Add title field if it exists
+  if (item.title) {
+    yamlItem.title = item.title;
+  }
+  
+  // Add narrative fields if they exist
+  if (item.clue) {
+    yamlItem.clue = item.clue;
+  }
+  
+  if (item.arrivalText) {
+    yamlItem.arrivalText = item.arrivalText;
+  }
+  
+  // Add the unlock radius if the author set one
+  if (item.radius !== undefined) {
+    yamlItem.radius = item.radius;
+  }
+  
+  // Add the unlock area if there is one
+  if (item.area) {
+    yamlItem.area = item.area.map(point => ({ lat: point.lat, lng: point.lng }));
+  }
+  
+  // Add the availability dates if there are any
+  if (item.availability) {
+    yamlItem.availability = { ...item.availability };
+  }
+  
+  // Add the branching links if the stop has any; a link without a label is just the ID
+  if (item.next) {
+    yamlItem.next = item.next.map(link => link.label ? { ...link } : link.stop);
+  }
+  
+  if (item.choicePrompt) {
+    yamlItem.choicePrompt = item.choicePrompt;
+  }
+  
+  return yamlItem;
+}
+
+/**
+ * Format placelist items as a YAML document in the current format version
  */
 export function formatAsYaml(items: PlacelistItem[]): string {
-  // Transform items to ensure they have the right structure for YAML
-  const yamlItems = items.map(item => {
-    const yamlItem: Record<string, any> = {
-      location: {
-        lat: item.location.lat,
-        lng: item.location.lng
-      },
+  return yaml.stringify({ version: PLACELIST_FORMAT_VERSION, items: items.map(toYamlItem) });
+}
+
+/**
+ * Format placelist items as traditional text (alternating lines)
+ */
+export function formatAsTraditional(items: PlacelistItem[]): string {
+  return items.map(item => 
+    `${item.location?.lat || ''},${item.location?.lng || ''}\n${item.spotifyUrl || ''}`
+  ).join('\n');
+}
+
+/**
+ * The fields, as named in YAML, that items use but legacy lines have no room for. IDs aren't
+ * counted, as new ones are given when the lines are read.
+ */
+export function findFieldsLostInTraditional(items: PlacelistItem[]): string[] {
+  const kept = new Set(['id', 'location', 'spotifyUrl', 'trackId']);
+  return [...new Set(items.flatMap(item => Object.keys(item).filter(key => !kept.has(key))))];
+}
+
+/**
+ * Escape a string for use in XML text or attribute values
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Format placelist items as a GPX 1.1 document with one waypoint per stop
+ */
+export function formatAsGpx(
+  items: PlacelistItem[],
+  metadata?: { name: string; description?: string | null }
+): string {
+  const waypoints = items.map(item => {
+    const lines = [
+      `  <wpt lat="${item.location.lat}" lon="${item.location.lng}">`,
+      ...(item.title ? [`    <name>${escapeXml(item.title)}</name>`] : []),
+      `    <desc>${escapeXml(item.spotifyUrl)}</desc>`,
+      `    <link href="${escapeXml(item.spotifyUrl)}">`,
+      `      <text>Spotify</text>`,
+      `    </link>`
+    ];
+    
+    // Everything else about the stop has no GPX equivalent, so it is kept in extension
+    // elements. An empty <nextStops/> ends the route at this stop.
+    const { availability } = item;
+    const dateList = (tag: string, dates: string[]) => dates.length === 0
+      ? [`        <${tag}/>`]
+      : [`        <${tag}>`, ...dates.map(date => `          <date>${escapeXml(date)}</date>`), `        </${tag}>`];
+    const extensions = [
+      ...(item.id ? [`      <id>${escapeXml(item.id)}</id>`] : []),
+      ...(item.onlyDuring ? [`      <onlyDuring>${escapeXml(item.onlyDuring)}</onlyDuring>`] : []),
+      ...(item.clue ? [`      <clue>${escapeXml(item.clue)}</clue>`] : []),
+      ...(item.arrivalText ? [`      <arrivalText>${escapeXml(item.arrivalText)}</arrivalText>`] : []),
+      ...(item.radius !== undefined ? [`      <radius>${item.radius}</radius>`] : []),
+      ...(item.area ? [
+        `      <area>`,
+        ...item.area.map(point => `        <point lat="${point.lat}" lon="${point.lng}"/>`),
+        `      </area>`
+      ] : []),
+      ...(availability ? [
+        `      <availability${availability.from ? ` from="${escapeXml(availability.from)}"` : ''}${availability.until ? ` until="${escapeXml(availability.until)}"` : ''}>`,
+        ...(availability.dates ? dateList('dates', availability.dates) : []),
+        ...(availability.except ? dateList('except', availability.except) : []),
+        `      </availability>`
+      ] : []),
+      ...(item.next?.length === 0 ? [`      <nextStops/>`] : []),
+      ...(item.next?.length ? [
+        `      <nextStops>`,
+        ...item.next.map(link => link.label
+          ? `        <next stop="${escapeXml(link.stop)}">${escapeXml(link.label)}</next>`
+          : `        <next stop="${escapeXml(link.stop)}"/>`),
+        `      </nextStops>`
+      ] : []),
+      ...(item.choicePrompt ? [`      <choicePrompt>${escapeXml(item.choicePrompt)}</choicePrompt>`] : [])
+    ];
+    
+    if (extensions.length > 0) {
+      lines.push(`    <extensions>`, ...extensions, `    </extensions>`);
+    }
+    
+    lines.push(`  </wpt>`);
+    return lines.join('\n');
+  });
+  
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="SpotiSpot" xmlns="http://www.topografix.com/GPX/1/1">`,
+    ...(metadata ? [
+      `  <metadata>`,
+      `    <name>${escapeXml(metadata.name)}</name>`,
+      ...(metadata.description ? [`    <desc>${escapeXml(metadata.description)}</desc>`] : []),
+      `  </metadata>`
+    ] : []),
+    ...waypoints,
+    `</gpx>`,
+    ''
+  ].join('\n');
+}
+
+/**
+ * Format placelist items as a GeoJSON FeatureCollection of Point features
+ */
+export function formatAsGeoJson(
+  items: PlacelistItem[],
+  metadata?: { name: string; description?: string | null }
+): string {
+  const features = items.map(item => {
+    const properties: Record<string, any> = {
       spotifyUrl: item.spotifyUrl
     };
     
-    // Add onlyDuring field if it exists
+    if (item.title) {
+      properties.title = item.title;
+    }
+    
     if (item.onlyDuring) {
-      yamlItem.onlyDuring = item.onlyDuring;
+      properties.onlyDuring = item.onlyDuring;
+    }
+    
+    if (item.clue) {
+      properties.clue = item.clue;
     }
     
-    return yamlItem;
+    if (item.arrivalText) {
+      properties.arrivalText = item.arrivalText;
+    }
+    
+    if (item.radius !== undefined) {
+      properties.radius = item.radius;
+    }
+    
+    if (item.availability) {
+      properties.availability = item.availability;
+    }
+    
+    // Branching links are written as in YAML, a link without a label being just the ID
+    if (item.next) {
+      properties.next = item.next.map(link => link.label ? { ...link } : link.stop);
+    }
+    
+    if (item.choicePrompt) {
+      properties.choicePrompt = item.choicePrompt;
+    }
+    
+    // Area stops become polygons, with the outer ring closed as GeoJSON requires
+    const geometry = item.area
+      ? {
+          type: 'Polygon',
+          coordinates: [[...item.area, item.area[0]].map(point => [point.lng, point.lat])]
+        }
+      : {
+          type: 'Point',
+          coordinates: [item.location.lng, item.location.lat]
+        };
+    
+    // The stop's ID goes in the feature's own id member
+    return {
+      type: 'Feature',
+      ...(item.id && { id: item.id }),
+      geometry,
+      properties
+    };
   });
   
-  return yaml.dump(yamlItems);
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    ...(metadata && { name: metadata.name }),
+    ...(metadata?.description && { description: metadata.description }),
+    features
+  }, null, 2);
 }
 
 /**
- * Format placelist items as traditional text (alternating lines)
+ * Format placelist items in the given text format
  */
-export function formatAsTraditional(items: PlacelistItem[]): string {
-  return items.map(item => 
-    `${item.location?.lat || ''},${item.location?.lng || ''}\n${item.spotifyUrl || ''}`
-  ).join('\n');
-}
\ No newline at end of file
+export function formatPlacelistItems(items: PlacelistItem[], format: PlacelistFormat): string {
+  switch (format) {
+    case 'traditional':
+      return formatAsTraditional(items);
+    case 'geojson':
+      return formatAsGeoJson(items);
+    case 'gpx':
+      return formatAsGpx(items);
+    default:
+      return formatAsYaml(items);
+  }
+}
+
+/**
+ * Write each item's ID into YAML text for items that don't have one written yet, so the IDs
+ * new items were given stay theirs from one save to the next. Returns null when the text
+ * isn't a YAML placelist with the same number of items.
+ */
+export function writeYamlItemIds(textContent: string, items: PlacelistItem[]): string | null {
+  const doc = yaml.parseDocument(textContent);
+  if (doc.errors.length > 0) {
+    return null;
+  }
+  
+  const itemsNode = yaml.isMap(doc.contents) ? doc.get('items', true) : doc.contents;
+  if (!yaml.isSeq(itemsNode) || itemsNode.items.length !== items.length) {
+    return null;
+  }
+  
+  itemsNode.items.forEach((node, index) => {
+    const id = items[index].id;
+    if (yaml.isMap(node) && id && !node.has('id')) {
+      // IDs go first, as they are written for new items
+      node.items.unshift(doc.createPair('id', id));
+    }
+  });
+  
+  return doc.toString();
+}
+
+/**
+ * A change made to the items in the visual editor
+ */
+export type PlacelistEdit =
+  | { type: 'update'; index: number; item: PlacelistItem }
+  | { type: 'remove'; index: number }
+  | { type: 'move'; from: number; to: number }
+  | { type: 'add'; items: PlacelistItem[] };
+
+// Optional item fields the editor manages; any other keys in the YAML are left alone
+const EDITABLE_OPTIONAL_FIELDS = ['onlyDuring', 'title', 'clue', 'arrivalText', 'radius', 'area', 'availability'] as const;
+
+/**
+ * Apply a visual editor change to YAML text in place, so comments, key order and fields
+ * the editor doesn't know about survive. Returns null when the text isn't a YAML placelist
+ * that can be patched (e.g. it has syntax errors), in which case callers should reformat.
+ */
+export function patchYamlItems(textContent: string, edit: PlacelistEdit): string | null {
+  const doc = yaml.parseDocument(textContent);
+  if (doc.errors.length > 0) {
+    return null;
+  }
+  
+  const itemsNode = yaml.isMap(doc.contents) ? doc.get('items', true) : doc.contents;
+  if (!yaml.isSeq(itemsNode)) {
+    return null;
+  }
+  
+  switch (edit.type) {
+    case 'update': {
+      const node = itemsNode.get(edit.index, true);
+      if (!yaml.isMap(node)) {
+        return null;
+      }
+      
+      const { location, ...fields } = toYamlItem(edit.item);
+      
+      // Set lat and lng separately so a flow-style location stays on one line. Area stops
+      // written without a location keep taking theirs from the middle of the area.
+      if (yaml.isMap(node.get('location', true))) {
+        node.setIn(['location', 'lat'], location.lat);
+        node.setIn(['location', 'lng'], location.lng);
+      } else if (!edit.item.area) {
+        node.set('location', doc.createNode(location));
+      }
+      
+      // Neither IDs nor the links between stops are edited in the visual editor, so they stay
+      // as the author wrote them
+      const { id, area, availability, next, ...scalarFields } = fields;
+      for (const [key, value] of Object.entries(scalarFields)) {
+        if (node.get(key) !== value) {
+          node.set(key, value);
+        }
+      }
+      
+      // Only rewrite an area that actually changed, so [lat, lng] pairs and their comments stay put
+      if (area) {
+        const current = node.get('area', true);
+        const currentArea = yaml.isNode(current) ? normalizeArea(current.toJS(doc), 'the area') : undefined;
+        if (JSON.stringify(currentArea) !== JSON.stringify(area)) {
+          node.set('area', doc.createNode(area, { flow: true }));
+        }
+      }
+      
+      if (availability) {
+        const current = node.get('availability', true);
+        const currentAvailability = yaml.isNode(current) ? normalizeAvailability(current.toJS(doc), 'the availability') : undefined;
+        if (JSON.stringify(currentAvailability) !== JSON.stringify(availability)) {
+          node.set('availability', doc.createNode(availability));
+        }
+      }
+      
+      for (const key of EDITABLE_OPTIONAL_FIELDS) {
+        if (!(key in fields)) {
+          node.delete(key);
+        }
+      }
+      
+      // A hand-written track ID would go stale when the URL changes
+      if (node.has('trackId')) {
+        node.set('trackId', edit.item.trackId ?? null);
+      }
+      break;
+    }
+    case 'remove':
+      itemsNode.delete(edit.index);
+      break;
+    case 'move': {
+      const [node] = itemsNode.items.splice(edit.from, 1);
+      itemsNode.items.splice(edit.to, 0, node);
+      break;
+    }
+    case 'add':
+      for (const item of edit.items) {
+        itemsNode.add(doc.createNode(toYamlItem(item)));
+      }
+      break;
+  }
+  
+  return doc.toString();
+}
@@ -0,0 +1,105 @@
+import { describe, expect, test } from "bun:test";
+import type { PlacelistItem } from "./placelistParsers";
+import {
+  assertValidPlacelistItems,
+  assignItemIds,
+  assignPositionalItemIds,
+  findReusedItemIds,
+  PLACELIST_FORMAT_VERSION,
+  upgradePlacelistItems,
+  validatePlacelistDocument
+} from "./placelistSchema";
+
+function item(extra: Partial<PlacelistItem> = {}): PlacelistItem {
+  return { location: { lat: 51.5, lng: -0.12 }, spotifyUrl: "https://open.spotify.com/track/abc123", ...extra };
+}
+
+describe("validatePlacelistDocument", () => {
+  test("accepts a complete document", () => {
+    const document = {
+      version: PLACELIST_FORMAT_VERSION,
+      name: "Walk",
+      description: "Along the river",
+      defaultRadius: 30,
+      activeFrom: "2026-06-01",
+      activeUntil: "2026-08-31",
+      playOrder: "any",
+      items: [
+        item({ id: "bridge", next: [{ stop: "fountain", label: "Left" }], choicePrompt: "Which way?", title: "Bridge", onlyDuring: "9am-5pm (MO-FR)", trackId: "abc123", radius: 40 }),
+        item({ id: "fountain", next: [], trackId: null, area: [{ lat: 51.5, lng: -0.12 }, { lat: 51.5, lng: -0.11 }, { lat: 51.51, lng: -0.11 }] }),
+        item({ availability: { from: "2026-06-01", dates: ["2026-06-02"], except: [] }, clue: "Look for the red door", arrivalText: "You made it" })
+      ]
+    };
+
+    expect(validatePlacelistDocument(document)).toEqual([]);
+  });
+
+  test("reports each problem with the path to it", () => {
+    const errors = validatePlacelistDocument({
+      version: PLACELIST_FORMAT_VERSION,
+      items: [item({ location: { lat: 91, lng: 0 } }), item({ title: "" }), item({ radius: 0 }), item({ area: [{ lat: 51.5, lng: -0.12 }] }), item({ availability: { from: "June" } })]
+    });
+
+    expect(errors.map(error => error.path)).toEqual([["items", 0, "location", "lat"], ["items", 1, "title"], ["items", 2, "radius"], ["items", 3, "area"], ["items", 4, "availability", "from"]]);
+    expect(errors[0].message).toStartWith("items.0.location.lat ");
+  });
+
+  test("turns down other versions", () => {
+    expect(validatePlacelistDocument({ version: 1, items: [] })).not.toEqual([]);
+  });
+
+  test("throws on the first problem before saving", () => {
+    expect(() => assertValidPlacelistItems([item({ spotifyUrl: "" })])).toThrow("Placelist does not match the document schema");
+  });
+});
+
+describe("upgradePlacelistItems", () => {
+  test("cleans up version 1 items", () => {
+    const [upgraded] = upgradePlacelistItems([
+      { location: { lat: "51.5", lng: "-0.12" }, spotifyUrl: "spotify:track:xyz789", onlyDuring: "", title: "" }
+    ], 1);
+
+    expect(upgraded).toEqual({ location: { lat: 51.5, lng: -0.12 }, spotifyUrl: "spotify:track:xyz789", trackId: "xyz789" });
+  });
+
+  test("leaves current items as they are", () => {
+    const items = [item({ title: "Bridge" })];
+    expect(upgradePlacelistItems(items, PLACELIST_FORMAT_VERSION)).toEqual(items);
+  });
+
+  test("reads anything but a list as no items", () => {
+    expect(upgradePlacelistItems(null, 1)).toEqual([]);
+  });
+});
+
+describe("assignItemIds", () => {
+  test("gives random IDs only to items without one", () => {
+    const items = assignItemIds([item({ id: "kept" }), item(), item()]);
+
+    expect(items[0].id).toBe("kept");
+    expect(items[1].id).toMatch(/^stop-[0-9a-f]{8}$/);
+    expect(items[2].id).toMatch(/^stop-[0-9a-f]{8}$/);
+    expect(items[1].id).not.toBe(items[2].id!);
+  });
+
+  test("doesn't tie IDs to where a stop is in the list", () => {
+    const [first] = assignItemIds([item()]);
+    const [second] = assignItemIds([item()]);
+
+    expect(first.id).not.toBe(second.id!);
+  });
+});
+
+describe("assignPositionalItemIds", () => {
+  test("numbers items by position, around IDs already taken", () => {
+    const items = assignPositionalItemIds([item(), item({ id: "stop-3" }), item()]);
+    expect(items.map(({ id }) => id)).toEqual(["stop-1", "stop-3", "stop-3-2"]);
+  });
+});
+
+describe("findReusedItemIds", () => {
+  test("finds items given the ID of a removed stop", () => {
+    const reused = item({ id: "stop-1" });
+    expect(findReusedItemIds([reused, item({ id: "stop-2" }), item()], ["stop-1"])).toEqual([reused]);
+  });
+});
@@ -0,0 +1,241 @@
+import Ajv from "ajv";
+import { extractSpotifyTrackId } from "./utils";
+import type { PlacelistItem } from "./placelistParsers";
+
+/**
+ * Current version of the placelist document format.
+ *
+ * - Version 1: a bare array of items (the original YAML format and `items` column)
+ * - Version 2: a document with a `version` header, optional name and description, and `items`
+ */
+export const PLACELIST_FORMAT_VERSION = 2;
+
+/**
+ * Whether stops have to be visited in the order they are listed, or in any order
+ */
+export type PlayOrder = "sequential" | "any";
+
+export const PLAY_ORDERS: PlayOrder[] = ["sequential", "any"];
+
+/**
+ * A placelist as a self-describing document, as written in YAML and validated on save
+ */
+export type PlacelistDocument = {
+  version: number;
+  name?: string;
+  description?: string;
+  defaultRadius?: number;
+  activeFrom?: string;
+  activeUntil?: string;
+  playOrder?: PlayOrder;
+  items: PlacelistItem[];
+}
+
+/**
+ * JSON Schema for the current document version, published at /schemas/placelist.schema.json
+ */
+export const placelistDocumentSchema = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "SpotiSpot placelist",
+  type: "object",
+  required: ["version", "items"],
+  properties: {
+    version: { const: PLACELIST_FORMAT_VERSION },
+    name: { type: "string" },
+    description: { type: "string" },
+    defaultRadius: { type: "number", exclusiveMinimum: 0 },
+    activeFrom: { $ref: "#/definitions/date" },
+    activeUntil: { $ref: "#/definitions/date" },
+    playOrder: { enum: PLAY_ORDERS },
+    items: {
+      type: "array",
+      items: { $ref: "#/definitions/item" }
+    }
+  },
+  definitions: {
+    item: {
+      type: "object",
+      required: ["location", "spotifyUrl"],
+      properties: {
+        id: { type: "string", minLength: 1 },
+        location: { $ref: "#/definitions/point" },
+        spotifyUrl: { type: "string", minLength: 1 },
+        trackId: { type: ["string", "null"] },
+        onlyDuring: { type: "string", minLength: 1 },
+        title: { type: "string", minLength: 1 },
+        clue: { type: "string", minLength: 1 },
+        arrivalText: { type: "string", minLength: 1 },
+        radius: { type: "number", exclusiveMinimum: 0 },
+        area: {
+          type: "array",
+          minItems: 3,
+          items: { $ref: "#/definitions/point" }
+        },
+        availability: {
+          type: "object",
+          properties: {
+            from: { $ref: "#/definitions/date" },
+            until: { $ref: "#/definitions/date" },
+            dates: { type: "array", items: { $ref: "#/definitions/date" } },
+            except: { type: "array", items: { $ref: "#/definitions/date" } }
+          }
+        },
+        next: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["stop"],
+            properties: {
+              stop: { type: "string", minLength: 1 },
+              label: { type: "string", minLength: 1 }
+            }
+          }
+        },
+        choicePrompt: { type: "string", minLength: 1 }
+      }
+    },
+    point: {
+      type: "object",
+      required: ["lat", "lng"],
+      properties: {
+        lat: { type: "number", minimum: -90, maximum: 90 },
+        lng: { type: "number", minimum: -180, maximum: 180 }
+      }
+    },
+    date: {
+      type: "string",
+      pattern: "^\\d{4}-\\d{2}-\\d{2}$"
+    }
+  }
+} as const;
+
+const ajv = new Ajv({ allErrors: true });
+const validateDocument = ajv.compile(placelistDocumentSchema);
+
+/**
+ * A schema violation, with the path to the offending value (e.g. ["items", 2, "location", "lat"])
+ */
+export type SchemaError = {
+  path: Array<string | number>;
+  message: string;
+}
+
+/**
+ * Validate a document against the current schema, returning every violation found
+ */
+export function validatePlacelistDocument(document: unknown): SchemaError[] {
+  if (validateDocument(document)) {
+    return [];
+  }
+
+  return (validateDocument.errors || []).map(error => {
+    const path = error.instancePath
+      .split('/')
+      .slice(1)
+      .map(segment => /^\d+$/.test(segment) ? Number(segment) : segment);
+    const where = path.length > 0 ? path.join('.') : 'document';
+
+    return { path, message: `${where} ${error.message}` };
+  });
+}
+
+/**
+ * Upgrade functions keyed by the version they upgrade from. Each takes the items as stored
+ * in that version and returns them in the shape of the next version.
+ */
+const itemUpgrades: Record<number, (items: any[]) => any[]> = {
+  // Version 1 items could have string coordinates, missing or stale track IDs and empty
+  // optional fields, depending on which editor wrote them
+  1: items => items.map(item => {
+    if (!item || typeof item !== 'object') return item;
+
+    const { onlyDuring, title, ...rest } = item;
+    return {
+      ...rest,
+      ...(rest.location && {
+        location: { lat: Number(rest.location.lat), lng: Number(rest.location.lng) }
+      }),
+      ...(typeof rest.spotifyUrl === 'string' && { trackId: extractSpotifyTrackId(rest.spotifyUrl) }),
+      ...(onlyDuring && { onlyDuring: String(onlyDuring) }),
+      ...(title && { title: String(title) })
+    };
+  })
+};
+
+/**
+ * Bring items stored in an older document version up to the current version
+ */
+export function upgradePlacelistItems(items: unknown, fromVersion: number): PlacelistItem[] {
+  let upgraded = Array.isArray(items) ? items : [];
+
+  for (let version = fromVersion; version < PLACELIST_FORMAT_VERSION; version++) {
+    const upgrade = itemUpgrades[version];
+    if (upgrade) {
+      upgraded = upgrade(upgraded);
+    }
+  }
+
+  return upgraded as PlacelistItem[];
+}
+
+/**
+ * Give every item without an ID a new random one ("stop-1f3a9c2e"). IDs don't depend on where
+ * a stop is in the list, so a stop added where another was removed never takes over its ID.
+ */
+export function assignItemIds(items: PlacelistItem[]): PlacelistItem[] {
+  const taken = new Set(items.map(item => item.id).filter(Boolean));
+
+  return items.map(item => {
+    if (item.id) return item;
+
+    // getRandomValues, unlike randomUUID, also works in the editor on a plain http page
+    let id;
+    do {
+      const bytes = crypto.getRandomValues(new Uint8Array(4));
+      id = `stop-${Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('')}`;
+    } while (taken.has(id));
+    taken.add(id);
+
+    return { id, ...item };
+  });
+}
+
+/**
+ * Give every item without an ID one based on its position ("stop-3" for the third). Only for
+ * items stored before they had IDs, which sessions already know by these.
+ */
+export function assignPositionalItemIds(items: PlacelistItem[]): PlacelistItem[] {
+  const taken = new Set(items.map(item => item.id).filter(Boolean));
+
+  return items.map((item, index) => {
+    if (item.id) return item;
+
+    let id = `stop-${index + 1}`;
+    for (let suffix = 2; taken.has(id); suffix++) {
+      id = `stop-${index + 1}-${suffix}`;
+    }
+    taken.add(id);
+
+    return { id, ...item };
+  });
+}
+
+/**
+ * Items that have been given the ID of a stop removed from an earlier version of the
+ * placelist. Sessions that unlocked the old stop would count the new one as unlocked.
+ */
+export function findReusedItemIds(items: PlacelistItem[], retiredItemIds: string[]): PlacelistItem[] {
+  const retired = new Set(retiredItemIds);
+  return items.filter(item => item.id && retired.has(item.id));
+}
+
+/**
+ * Validate items before they are written to the database, throwing on the first problem
+ */
+export function assertValidPlacelistItems(items: PlacelistItem[]) {
+  const errors = validatePlacelistDocument({ version: PLACELIST_FORMAT_VERSION, items });
+
+  if (errors.length > 0) {
+    throw new Error(`Placelist does not match the document schema: ${errors[0].message}`);
+  }
+}
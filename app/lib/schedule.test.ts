@@ -0,0 +1,240 @@
+import { describe, expect, test } from "bun:test"
+import {
+  describeAvailability,
+  formatNextOpening,
+  formatWeeklyHours,
+  formatZonedDateTime,
+  getScheduleStatus,
+  getScheduleTimeZone,
+  getWeeklyHours,
+  getWindowPhase,
+  parseZonedDateTime,
+  validateSchedule
+} from "./schedule"
+
+const LONDON = { lat: 51.5074, lng: -0.1278 }
+
+describe("validateSchedule", () => {
+  test("accepts both dialects", () => {
+    expect(validateSchedule("Mo-Fr 09:00-17:00; Sa 10:00-14:00; PH off")).toBeNull()
+    expect(validateSchedule("9am-5pm (MO-FR); 10-3 (SA-SU) PST")).toBeNull()
+  })
+
+  test("accepts midnight as 24:00 but nothing after it", () => {
+    expect(validateSchedule("Mo-Fr 22:00-24:00")).toBeNull()
+    expect(validateSchedule("Mo-Fr 22:00-24:30")).toBe("Invalid time: 24:30")
+  })
+
+  test("accepts times relative to the sun", () => {
+    expect(validateSchedule("Mo-Su (sunset-00:30)-(sunset+00:30)")).toBeNull()
+    expect(validateSchedule("Mo-Su sunset-30min to sunset+1h")).toBeNull()
+    expect(validateSchedule("Mo-Su sunset")).not.toBeNull()
+  })
+
+  test("accepts IANA names and abbreviations as time zones", () => {
+    expect(validateSchedule("Mo-Fr 09:00-17:00 America/Argentina/Buenos_Aires")).toBeNull()
+    expect(validateSchedule("9am-5pm (MO-FR) pst")).toBeNull()
+    expect(validateSchedule("Mo-Fr 09:00-17:00 Europe/Atlantis")).toBe("Unknown time zone: Europe/Atlantis")
+  })
+
+  test("reports what it couldn't read", () => {
+    expect(validateSchedule("whenever")).not.toBeNull()
+  })
+})
+
+describe("getScheduleStatus", () => {
+  test("is open during the hours", () => {
+    // 2026-01-05 is a Monday
+    expect(getScheduleStatus(new Date("2026-01-05T10:00:00Z"), "Mo-Fr 09:00-17:00 UTC").open).toBe(true)
+    expect(getScheduleStatus(new Date("2026-01-05T08:59:00Z"), "Mo-Fr 09:00-17:00 UTC").open).toBe(false)
+    expect(getScheduleStatus(new Date("2026-01-10T10:00:00Z"), "Mo-Fr 09:00-17:00 UTC").open).toBe(false)
+  })
+
+  test("is open during the hours in the schedule's own time zone", () => {
+    // London is on UTC in January
+    expect(getScheduleStatus(new Date("2026-01-05T10:00:00Z"), "Mo-Fr 09:00-17:00 Europe/London").open).toBe(true)
+    expect(getScheduleStatus(new Date("2026-01-05T17:00:00Z"), "Mo-Fr 09:00-17:00 Europe/London").open).toBe(false)
+  })
+
+  test("follows daylight saving time", () => {
+    // New York is on UTC-4 in July
+    const schedule = "Mo-Su 09:00-17:00 America/New_York"
+    expect(getScheduleStatus(new Date("2026-07-01T13:00:00Z"), schedule).open).toBe(true)
+    expect(getScheduleStatus(new Date("2026-07-01T12:59:00Z"), schedule).open).toBe(false)
+  })
+
+  test("works out the time zone from the stop's location when the schedule names none", () => {
+    const status = getScheduleStatus(new Date("2026-01-05T10:00:00Z"), "Mo-Fr 09:00-17:00", { location: { lat: 35.68, lng: 139.69 } })
+
+    expect(status.timeZone).toBe("Asia/Tokyo")
+    expect(status.open).toBe(false)
+  })
+
+  test("counts real minutes to the opening across a daylight saving change", () => {
+    // Clocks in London went forward at 01:00 UTC on 29 March 2026
+    expect(getScheduleStatus(new Date("2026-03-29T00:30:00Z"), "Su 03:00-04:00 Europe/London").nextOpenIn).toBe(90)
+  })
+
+  test("says how long until it opens later the same day", () => {
+    expect(getScheduleStatus(new Date("2026-01-05T08:00:00Z"), "Mo-Fr 09:00-17:00 UTC").nextOpenIn).toBe(60)
+  })
+
+  test("finds the next opening across days", () => {
+    const status = getScheduleStatus(new Date("2026-01-09T18:00:00Z"), "Mo-Fr 09:00-17:00 Europe/London")
+
+    expect(status.open).toBe(false)
+    expect(status.nextOpenAt?.toISOString()).toBe("2026-01-12T09:00:00.000Z")
+    expect(status.nextOpenIn).toBe(63 * 60)
+  })
+
+  test("skips holidays when looking for the next opening", () => {
+    const status = getScheduleStatus(new Date("2026-01-09T18:00:00Z"), "Mo-Fr 09:00-17:00; PH off UTC", { holidays: ["2026-01-12"] })
+    expect(status.nextOpenAt?.toISOString()).toBe("2026-01-13T09:00:00.000Z")
+  })
+
+  test("has no next opening for schedules that never open", () => {
+    expect(getScheduleStatus(new Date("2026-01-09T18:00:00Z"), "Mo-Su off UTC").nextOpenAt).toBeNull()
+  })
+
+  test("lets later rules replace or add to earlier ones", () => {
+    const replacing = "Mo-Fr 09:00-17:00; We 12:00-13:00; Th off UTC"
+    const adding = "Mo-Fr 09:00-17:00, Fr 18:00-20:00 UTC"
+
+    // Wednesday 7 January, Thursday 8 and Friday 9
+    expect(getScheduleStatus(new Date("2026-01-07T10:00:00Z"), replacing).open).toBe(false)
+    expect(getScheduleStatus(new Date("2026-01-07T12:30:00Z"), replacing).open).toBe(true)
+    expect(getScheduleStatus(new Date("2026-01-08T10:00:00Z"), replacing).open).toBe(false)
+    expect(getScheduleStatus(new Date("2026-01-09T10:00:00Z"), adding).open).toBe(true)
+    expect(getScheduleStatus(new Date("2026-01-09T19:00:00Z"), adding).open).toBe(true)
+  })
+
+  test("reads legacy hour-only ranges as the afternoon", () => {
+    expect(getScheduleStatus(new Date("2026-01-05T16:30:00Z"), "9-5 (MO-FR) UTC").open).toBe(true)
+    expect(getScheduleStatus(new Date("2026-01-05T17:30:00Z"), "9-5 (MO-FR) UTC").open).toBe(false)
+  })
+
+  test("stays open past midnight on overnight spans", () => {
+    // Friday 22:00 to Saturday 02:00
+    expect(getScheduleStatus(new Date("2026-01-10T01:00:00Z"), "Fr 22:00-02:00 UTC").open).toBe(true)
+    expect(getScheduleStatus(new Date("2026-01-10T03:00:00Z"), "Fr 22:00-02:00 UTC").open).toBe(false)
+  })
+
+  test("closes on public holidays only when told which days they are", () => {
+    const schedule = "Mo-Fr 09:00-17:00; PH off UTC"
+    const date = new Date("2026-01-05T10:00:00Z")
+
+    expect(getScheduleStatus(date, schedule).open).toBe(true)
+    expect(getScheduleStatus(date, schedule, { holidays: ["2026-01-05"] }).open).toBe(false)
+  })
+
+  test("keeps to months and days of the month", () => {
+    const schedule = "Jan-Mar Mo-Fr 09:00-17:00; Jan 05 off UTC"
+
+    expect(getScheduleStatus(new Date("2026-01-05T10:00:00Z"), schedule).open).toBe(false)
+    expect(getScheduleStatus(new Date("2026-01-06T10:00:00Z"), schedule).open).toBe(true)
+    expect(getScheduleStatus(new Date("2026-04-06T10:00:00Z"), schedule).open).toBe(false)
+  })
+
+  test("works out times relative to the sun at the stop's location", () => {
+    const schedule = "Mo-Su sunrise-sunset"
+
+    expect(getScheduleStatus(new Date("2026-01-05T12:00:00Z"), schedule, { location: LONDON }).open).toBe(true)
+    expect(getScheduleStatus(new Date("2026-01-05T17:00:00Z"), schedule, { location: LONDON }).open).toBe(false)
+    // Sunset in London is after 21:00 BST at midsummer
+    expect(getScheduleStatus(new Date("2026-06-21T19:30:00Z"), schedule, { location: LONDON }).open).toBe(true)
+  })
+
+  test("uses rough sun times without a location", () => {
+    const schedule = "Mo-Su sunrise-sunset UTC"
+
+    expect(getScheduleStatus(new Date("2026-06-21T06:30:00Z"), schedule).open).toBe(true)
+    expect(getScheduleStatus(new Date("2026-06-21T18:30:00Z"), schedule).open).toBe(false)
+  })
+
+  test("keeps to the availability dates without a schedule", () => {
+    const options = { location: LONDON, availability: [{ from: "2026-06-01", except: ["2026-06-02"] }] }
+
+    expect(getScheduleStatus(new Date("2026-05-31T12:00:00Z"), undefined, options).open).toBe(false)
+    expect(getScheduleStatus(new Date("2026-06-01T12:00:00Z"), undefined, options).open).toBe(true)
+    expect(getScheduleStatus(new Date("2026-06-02T12:00:00Z"), undefined, options).open).toBe(false)
+    expect(getScheduleStatus(new Date("2026-06-02T12:00:00Z"), undefined, options).nextOpenAt?.toISOString())
+      .toBe("2026-06-02T23:00:00.000Z")
+  })
+
+  test("only opens on the days every limit allows", () => {
+    const options = { availability: [{ until: "2026-08-31" }, { dates: ["2026-08-31", "2026-09-01"] }] }
+
+    expect(getScheduleStatus(new Date("2026-08-31T10:00:00Z"), "Mo-Su 09:00-17:00 UTC", options).open).toBe(true)
+    expect(getScheduleStatus(new Date("2026-09-01T10:00:00Z"), "Mo-Su 09:00-17:00 UTC", options).open).toBe(false)
+  })
+})
+
+describe("weekly hours", () => {
+  test("read and write the same schedule", () => {
+    const schedule = "Mo-Fr 09:00-17:00; Sa 10:00-14:00 Europe/London"
+    const weekly = getWeeklyHours(schedule)
+
+    expect(weekly?.days[0]).toEqual([{ start: "09:00", end: "17:00" }])
+    expect(weekly?.days[6]).toEqual([])
+    expect(formatWeeklyHours(weekly!.days, weekly!.timeZoneName)).toBe(schedule)
+  })
+
+  test("take in days closed and hours added by later rules", () => {
+    const weekly = getWeeklyHours("Mo-Fr 09:00-17:00; We off, Fr 18:00-20:00")
+
+    expect(weekly?.days[2]).toEqual([])
+    expect(weekly?.days[4]).toEqual([{ start: "09:00", end: "17:00" }, { start: "18:00", end: "20:00" }])
+    expect(formatWeeklyHours(weekly!.days)).toBe("Mo,Tu,Th 09:00-17:00; Fr 09:00-17:00,18:00-20:00")
+  })
+
+  test("can't be shown for schedules with more than weekly hours", () => {
+    expect(getWeeklyHours("Mo-Fr 09:00-17:00; PH off")).toBeNull()
+    expect(getWeeklyHours("Mo-Su sunrise-sunset")).toBeNull()
+    expect(getWeeklyHours("whenever")).toBeNull()
+  })
+})
+
+describe("zoned date and time", () => {
+  test("round trips through the stop's time zone", () => {
+    const timeZone = getScheduleTimeZone("Mo-Fr 09:00-17:00 America/New_York")
+    const date = parseZonedDateTime("2026-07-01T09:30", timeZone)
+
+    expect(date?.toISOString()).toBe("2026-07-01T13:30:00.000Z")
+    expect(formatZonedDateTime(date!, timeZone)).toBe("2026-07-01T09:30")
+    expect(parseZonedDateTime("tomorrow", timeZone)).toBeNull()
+  })
+
+  test("take the zone from the location when the schedule names none", () => {
+    expect(getScheduleTimeZone(undefined, { location: LONDON })).toBe("Europe/London")
+  })
+})
+
+describe("getWindowPhase", () => {
+  test("judges the date at the location", () => {
+    const window = { from: "2026-06-01", until: "2026-08-31" }
+
+    // London is on UTC+1 in summer, so 23:30 UTC on 31 May is already 1 June there
+    expect(getWindowPhase(new Date("2026-05-31T23:30:00Z"), window, LONDON)).toBe("during")
+    expect(getWindowPhase(new Date("2026-05-31T22:30:00Z"), window, LONDON)).toBe("before")
+    expect(getWindowPhase(new Date("2026-09-01T12:00:00Z"), window, LONDON)).toBe("after")
+  })
+})
+
+describe("describeAvailability", () => {
+  test("lists the limits in words", () => {
+    expect(describeAvailability({ from: "2026-06-01", until: "2026-08-31", except: ["2026-07-04"] }))
+      .toBe("2026-06-01 to 2026-08-31, except 2026-07-04")
+    expect(describeAvailability({ until: "2026-08-31" })).toBe("until 2026-08-31")
+    expect(describeAvailability({ dates: ["2026-05-02", "2026-05-03"] })).toBe("only on 2026-05-02, 2026-05-03")
+  })
+})
+
+describe("formatNextOpening", () => {
+  const now = new Date("2026-01-09T18:00:00Z") // A Friday
+
+  test("gives the time in the stop's zone, with the day once it isn't today", () => {
+    expect(formatNextOpening(new Date("2026-01-09T20:30:00Z"), "Europe/London", now)).toBe("20:30")
+    expect(formatNextOpening(new Date("2026-01-12T09:00:00Z"), "America/New_York", now)).toBe("Monday 4:00")
+    expect(formatNextOpening(new Date("2026-03-12T09:00:00Z"), "Europe/London", now)).toBe("12 March 9:00")
+  })
+})
@@ -0,0 +1,991 @@
+/**
+ * Opening hours for stops (the `onlyDuring` field).
+ *
+ * Two dialects are understood:
+ * - OpenStreetMap `opening_hours`, e.g. `Mo-Fr 09:00-17:00; Sa 10:00-14:00; PH off`, including
+ *   times relative to the sun like `(sunset-00:30)-(sunset+00:30)` or `sunset-30min to sunset+30min`
+ * - The original SpotiSpot dialect, e.g. `9am-5pm (MO-FR); 10-3 (SA-SU) PST`
+ *
+ * Either can end with a time zone: an IANA name like `America/Los_Angeles` or a common
+ * abbreviation like `PST`. Without one, the zone is worked out from the stop's location. Both
+ * dialects are parsed into the same list of rules, which are evaluated one local day at a time.
+ */
+
+import { getSunTimes, type SunEvent } from "./sun"
+import { getTimeZoneForLocation, resolveTimeZone } from "./timeZones"
+import type { LatLng } from "./utils"
+
+// Monday first, as in OSM
+const WEEKDAYS = ["mo", "tu", "we", "th", "fr", "sa", "su"]
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"]
+
+interface TimeSpan {
+  start: number // Minutes since midnight
+  end: number   // Minutes since midnight (next day allowed)
+}
+
+// Minutes since midnight, or minutes either side of a sun event, which moves day to day
+type TimeValue = number | { event: SunEvent; offset: number }
+
+// A span as written in a rule, worked out into a TimeSpan for each day
+interface RuleTimeSpan {
+  start: TimeValue
+  end: TimeValue
+}
+
+interface NumberRange {
+  from: number
+  to: number
+  step?: number
+}
+
+// A month, or a month and day; day is left out for whole months
+interface MonthDay {
+  month: number // 1-12
+  day?: number
+}
+
+interface WeekdaySelector {
+  day: number    // 0 = Monday
+  nth?: number[] // e.g. [1] for the first of the month, [-1] for the last
+}
+
+interface OpeningHoursRule {
+  // Normal rules replace what earlier rules said about a day, additional rules add to it,
+  // and fallback rules only apply to days no earlier rule matched
+  kind: "normal" | "additional" | "fallback"
+  years: NumberRange[]
+  months: Array<{ from: MonthDay; to: MonthDay }>
+  weeks: NumberRange[]
+  weekdays: WeekdaySelector[]
+  publicHoliday: boolean
+  schoolHoliday: boolean
+  times: RuleTimeSpan[] // empty means the whole day
+  state: "open" | "closed" | "unknown"
+  comment?: string
+}
+
+interface ScheduleParseResult {
+  rules: OpeningHoursRule[]
+  timeZone: string | null     // IANA zone named in the schedule, if any
+  timeZoneName: string | null // The zone as written, e.g. "PST"
+}
+
+/**
+ * Calendar limits on when a stop, or a whole placelist, can be played. Dates are YYYY-MM-DD
+ * in the stop's time zone and inclusive: `from` and `until` bound a season, `dates` limits
+ * play to particular days (a festival weekend, say) and `except` rules days out.
+ */
+export interface Availability {
+  from?: string
+  until?: string
+  dates?: string[]
+  except?: string[]
+}
+
+/**
+ * Dates (YYYY-MM-DD, in the schedule's time zone) that the `PH` and `SH` selectors match.
+ * Without them, rules for public and school holidays never apply. The location is used to
+ * pick a time zone when the schedule doesn't name one, and a day is only open if every
+ * availability allows it.
+ */
+export interface ScheduleOptions {
+  holidays?: string[]
+  schoolHolidays?: string[]
+  location?: LatLng
+  availability?: Availability[]
+}
+
+// A calendar day in the schedule's time zone
+interface LocalDay {
+  year: number
+  month: number   // 1-12
+  day: number
+  weekday: number // 0 = Monday
+}
+
+/**
+ * Converts AM/PM or hour-only time to minutes since midnight.
+ */
+function parseTime(time: string): number {
+  const match = time.match(/^(\d{1,2})(?::(\d{2}))?\s*([ap]m?)?$/i)
+  if (!match) throw new Error(`Invalid time format: ${time}`)
+
+  const [, hourStr, minuteStr, period] = match
+  let hour = parseInt(hourStr, 10)
+  const minutes = minuteStr ? parseInt(minuteStr, 10) : 0
+
+  if (period) {
+    const meridiem = period.toLowerCase()
+    if (meridiem.startsWith("p") && hour !== 12) hour += 12
+    if (meridiem.startsWith("a") && hour === 12) hour = 0
+  }
+
+  // 24:00 is the end of the day, but nothing comes after it
+  if (hour > 24 || minutes > 59 || (hour === 24 && minutes > 0)) throw new Error(`Invalid time: ${time}`)
+
+  return hour * 60 + minutes
+}
+
+/**
+ * Expands legacy day ranges (e.g., "MO-WE, FR" → Monday, Tuesday, Wednesday, Friday)
+ */
+function expandLegacyDays(dayRange: string): WeekdaySelector[] {
+  const days: WeekdaySelector[] = []
+
+  for (const part of dayRange.split(",").map(p => p.trim().toLowerCase())) {
+    const rangeMatch = part.match(/^([a-z]{2})-([a-z]{2})$/)
+    if (rangeMatch) {
+      const startIndex = WEEKDAYS.indexOf(rangeMatch[1])
+      const endIndex = WEEKDAYS.indexOf(rangeMatch[2])
+      if (startIndex === -1 || endIndex === -1 || startIndex > endIndex) {
+        throw new Error(`Invalid day range: ${part}`)
+      }
+      for (let day = startIndex; day <= endIndex; day++) days.push({ day })
+    } else if (WEEKDAYS.includes(part)) {
+      days.push({ day: WEEKDAYS.indexOf(part) })
+    } else {
+      throw new Error(`Invalid day: ${part}`)
+    }
+  }
+
+  return days
+}
+
+/**
+ * Parses the original dialect: `time-range[, time-range] (days)` entries separated by semicolons.
+ * Entries add to each other, so two entries for the same day both apply.
+ */
+function parseLegacyRules(schedule: string): OpeningHoursRule[] {
+  return schedule.split(";").map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const match = entry.match(/^([\d:apm,\-\s]+)\(([^)]+)\)$/i)
+    if (!match) {
+      throw new Error(`Invalid format: ${entry}`)
+    }
+
+    const [, timePart, daysPart] = match
+    const times = timePart.split(",").map(range => range.trim()).filter(Boolean).map(range => {
+      const ends = range.split("-")
+      if (ends.length !== 2) {
+        throw new Error(`Invalid time range format: ${range}`)
+      }
+
+      const start = parseTime(ends[0].trim())
+      let end = parseTime(ends[1].trim())
+
+      // "9-5" and "10-3" mean the afternoon, not the small hours of the next day
+      if (end <= start && end < 720 && end + 720 > start && !/[ap]m?$/i.test(ends[1].trim())) {
+        end += 720
+      }
+
+      return { start, end: end <= start ? end + 1440 : end } // Handle overnight shifts
+    })
+
+    return {
+      ...emptyRule("additional"),
+      weekdays: expandLegacyDays(daysPart),
+      times,
+    }
+  })
+}
+
+function emptyRule(kind: OpeningHoursRule["kind"]): OpeningHoursRule {
+  return {
+    kind,
+    years: [],
+    months: [],
+    weeks: [],
+    weekdays: [],
+    publicHoliday: false,
+    schoolHoliday: false,
+    times: [],
+    state: "open",
+  }
+}
+
+/**
+ * Splits an OSM value into rules, keeping track of how each rule combines with the ones before
+ * it. Separators inside quoted comments are ignored.
+ */
+function splitOsmRules(value: string): Array<{ kind: OpeningHoursRule["kind"]; text: string }> {
+  const rules: Array<{ kind: OpeningHoursRule["kind"]; text: string }> = []
+  let kind: OpeningHoursRule["kind"] = "normal"
+  let current = ""
+  let inComment = false
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]
+
+    if (char === '"') {
+      inComment = !inComment
+    } else if (!inComment && char === ";") {
+      rules.push({ kind, text: current })
+      kind = "normal"
+      current = ""
+      continue
+    } else if (!inComment && value.startsWith("||", i)) {
+      rules.push({ kind, text: current })
+      kind = "fallback"
+      current = ""
+      i++
+      continue
+    } else if (
+      !inComment && char === "," && /^,\s+/.test(value.slice(i)) &&
+      /^,\s+(?:\d{4}|week\b|[A-Z][a-z](?:[\s,\-\[]|$)|PH|SH|[A-Z][a-z]{2}\b)/.test(value.slice(i)) &&
+      /(?:\d{1,2}:\d{2}\+?|\b(?:dawn|sunrise|sunset|dusk)|\d\s*(?:min|h)|\))\s*$|\b(?:off|closed|open|unknown)\s*$|"\s*$/.test(current)
+    ) {
+      // ", " followed by a new selector, after a complete rule, starts an additional rule
+      rules.push({ kind, text: current })
+      kind = "additional"
+      current = ""
+      continue
+    }
+
+    current += char
+  }
+
+  if (inComment) {
+    throw new Error("Unclosed comment: a quote is missing")
+  }
+
+  rules.push({ kind, text: current })
+  return rules.filter(rule => rule.text.trim() !== "")
+}
+
+// Parses a comma-separated list, consuming one item at a time from the front of the text
+function parseList<T>(
+  text: string,
+  parseItem: (rest: string) => { item: T; rest: string } | null
+): { items: T[]; rest: string } | null {
+  const first = parseItem(text)
+  if (!first) return null
+
+  const items = [first.item]
+  let rest = first.rest
+
+  for (;;) {
+    const separator = rest.match(/^,\s*/)
+    const next = separator ? parseItem(rest.slice(separator[0].length)) : null
+    if (!next) break
+    items.push(next.item)
+    rest = next.rest
+  }
+
+  return { items, rest }
+}
+
+const monthPattern = MONTHS.map(m => m[0].toUpperCase() + m.slice(1)).join("|")
+const weekdayPattern = "Mo|Tu|We|Th|Fr|Sa|Su"
+
+function parseYear(text: string) {
+  const match = text.match(/^(\d{4})(?:-(\d{4}))?(?:\/(\d+))?(?![\d:])/)
+  if (!match) return null
+  const from = Number(match[1])
+  return {
+    item: { from, to: match[2] ? Number(match[2]) : from, step: match[3] ? Number(match[3]) : undefined },
+    rest: text.slice(match[0].length),
+  }
+}
+
+function parseMonthRange(text: string) {
+  const match = text.match(new RegExp(
+    `^(${monthPattern})(?:\\s+(\\d{1,2})(?![\\d:]))?(?:\\s*-\\s*(?:(${monthPattern})(?:\\s+(\\d{1,2})(?![\\d:]))?|(\\d{1,2})(?![\\d:])))?`
+  ))
+  if (!match) return null
+
+  const [, fromMonth, fromDay, toMonth, toMonthDay, toDay] = match
+  const from: MonthDay = { month: MONTHS.indexOf(fromMonth.toLowerCase()) + 1, day: fromDay ? Number(fromDay) : undefined }
+  let to: MonthDay
+
+  if (toMonth) {
+    to = { month: MONTHS.indexOf(toMonth.toLowerCase()) + 1, day: toMonthDay ? Number(toMonthDay) : undefined }
+  } else if (toDay) {
+    to = { month: from.month, day: Number(toDay) }
+  } else {
+    to = { ...from }
+  }
+
+  return { item: { from, to }, rest: text.slice(match[0].length) }
+}
+
+function parseWeek(text: string) {
+  const match = text.match(/^(\d{1,2})(?:-(\d{1,2}))?(?:\/(\d+))?/)
+  if (!match) return null
+  const from = Number(match[1])
+  return {
+    item: { from, to: match[2] ? Number(match[2]) : from, step: match[3] ? Number(match[3]) : undefined },
+    rest: text.slice(match[0].length),
+  }
+}
+
+type DaySelector = { holiday: "PH" | "SH" } | { weekdays: WeekdaySelector[] }
+
+function parseDaySelector(text: string): { item: DaySelector; rest: string } | null {
+  const holiday = text.match(/^(PH|SH)(?![A-Za-z])/)
+  if (holiday) {
+    return { item: { holiday: holiday[1] as "PH" | "SH" }, rest: text.slice(holiday[0].length) }
+  }
+
+  const match = text.match(new RegExp(`^(${weekdayPattern})(?:-(${weekdayPattern}))?(?:\\[([-\\d,\\s]+)\\])?(?![a-z])`))
+  if (!match) return null
+
+  const start = WEEKDAYS.indexOf(match[1].toLowerCase())
+  const end = match[2] ? WEEKDAYS.indexOf(match[2].toLowerCase()) : start
+  const nth = match[3] ? expandNth(match[3]) : undefined
+  const weekdays: WeekdaySelector[] = []
+
+  // Ranges can wrap around the week, e.g. Sa-Mo
+  for (let i = 0; i <= (end - start + 7) % 7; i++) {
+    weekdays.push({ day: (start + i) % 7, nth })
+  }
+
+  return { item: { weekdays }, rest: text.slice(match[0].length) }
+}
+
+// "1,3" → [1, 3]; "1-2" → [1, 2]; "-1" → [-1]
+function expandNth(text: string): number[] {
+  return text.split(",").flatMap(part => {
+    const range = part.trim().match(/^([1-5])-([1-5])$/)
+    if (range) {
+      const values = []
+      for (let n = Number(range[1]); n <= Number(range[2]); n++) values.push(n)
+      return values
+    }
+
+    const n = Number(part.trim())
+    if (!Number.isInteger(n) || n === 0 || Math.abs(n) > 5) {
+      throw new Error(`Invalid weekday occurrence: [${text}]`)
+    }
+    return [n]
+  })
+}
+
+/**
+ * Parses a clock time or a sun event: "17:30", "sunset", "(sunset-00:30)" as in OSM, or
+ * "sunset-30min" and "sunrise+1h"
+ */
+function parseTimeValue(text: string): { item: TimeValue; rest: string } | null {
+  const osmEvent = text.match(/^\(\s*(dawn|sunrise|sunset|dusk)\s*([+-])\s*(\d{1,2}):(\d{2})\s*\)/)
+  if (osmEvent) {
+    const [, event, sign, hours, minutes] = osmEvent
+    const offset = (sign === "-" ? -1 : 1) * (Number(hours) * 60 + Number(minutes))
+    return { item: { event: event as SunEvent, offset }, rest: text.slice(osmEvent[0].length) }
+  }
+
+  const event = text.match(/^(dawn|sunrise|sunset|dusk)(?:\s*([+-])\s*(\d+)\s*(min|h)(?![a-z]))?/)
+  if (event) {
+    const [, name, sign, amount, unit] = event
+    const offset = amount ? (sign === "-" ? -1 : 1) * Number(amount) * (unit === "h" ? 60 : 1) : 0
+    return { item: { event: name as SunEvent, offset }, rest: text.slice(event[0].length) }
+  }
+
+  const time = text.match(/^(\d{1,2}):(\d{2})/)
+  if (time) {
+    return { item: parseTime(time[0]), rest: text.slice(time[0].length) }
+  }
+
+  return null
+}
+
+function parseTimeSpan(text: string): { item: RuleTimeSpan; rest: string } | null {
+  const start = parseTimeValue(text)
+  if (!start) return null
+
+  // Open end ("10:00+"): assume open until midnight
+  const openEnd = start.rest.match(/^\+/)
+  if (openEnd) {
+    return { item: { start: start.item, end: 1440 }, rest: start.rest.slice(1) }
+  }
+
+  const separator = start.rest.match(/^\s*(?:-|to(?![a-z]))\s*/)
+  const end = separator ? parseTimeValue(start.rest.slice(separator[0].length)) : null
+  if (!separator) {
+    throw new Error(`Time "${text.slice(0, text.length - start.rest.length)}" needs an end, e.g. "-17:00"`)
+  }
+  if (!end) {
+    throw new Error(`Couldn't understand the end of the time span "${text.trim()}"`)
+  }
+
+  let endValue = end.item
+  if (typeof start.item === "number" && typeof endValue === "number" && endValue <= start.item) {
+    endValue += 1440 // Past midnight
+  }
+
+  // "10:00-12:00+" is open until 12:00 and possibly later; treat it as closing at 12:00
+  return { item: { start: start.item, end: endValue }, rest: end.rest.replace(/^\+/, "") }
+}
+
+/**
+ * Parses one OSM rule: optional selectors (year, month/date, week, weekday/holiday), then
+ * times, a state and a comment, in that order.
+ */
+function parseOsmRule(text: string, kind: OpeningHoursRule["kind"]): OpeningHoursRule {
+  const rule = emptyRule(kind)
+  let rest = text.trim()
+  const skipSpace = () => { rest = rest.replace(/^\s+/, "") }
+
+  if (rest.startsWith("24/7")) {
+    rest = rest.slice(4)
+    rule.times = [{ start: 0, end: 1440 }]
+    skipSpace()
+  }
+
+  const years = parseList(rest, parseYear)
+  if (years) {
+    rule.years = years.items
+    rest = years.rest
+    skipSpace()
+  }
+
+  const months = parseList(rest, parseMonthRange)
+  if (months) {
+    rule.months = months.items
+    rest = months.rest
+    skipSpace()
+  }
+
+  const weekKeyword = rest.match(/^week\s*/)
+  if (weekKeyword) {
+    const weeks = parseList(rest.slice(weekKeyword[0].length), parseWeek)
+    if (!weeks) throw new Error(`Invalid week selector in "${text.trim()}"`)
+    rule.weeks = weeks.items
+    rest = weeks.rest
+    skipSpace()
+  }
+
+  // A colon may separate the wide range selectors above from the rest
+  if ((years || months || weekKeyword) && rest.startsWith(":")) {
+    rest = rest.slice(1)
+    skipSpace()
+  }
+
+  const days = parseList(rest, parseDaySelector)
+  if (days) {
+    for (const selector of days.items) {
+      if ("holiday" in selector) {
+        if (selector.holiday === "PH") rule.publicHoliday = true
+        else rule.schoolHoliday = true
+      } else {
+        rule.weekdays.push(...selector.weekdays)
+      }
+    }
+    rest = days.rest
+    skipSpace()
+  }
+
+  const times = parseList(rest, parseTimeSpan)
+  if (times) {
+    rule.times = times.items
+    rest = times.rest
+    skipSpace()
+  }
+
+  const state = rest.match(/^(open|closed|off|unknown)(?![a-z])/)
+  if (state) {
+    rule.state = state[1] === "off" ? "closed" : state[1] as OpeningHoursRule["state"]
+    rest = rest.slice(state[0].length)
+    skipSpace()
+  }
+
+  const comment = rest.match(/^"([^"]*)"/)
+  if (comment) {
+    rule.comment = comment[1]
+    rest = rest.slice(comment[0].length)
+    skipSpace()
+  }
+
+  if (rest !== "") {
+    throw new Error(`Couldn't understand "${rest}" in "${text.trim()}"`)
+  }
+
+  return rule
+}
+
+// Old schedules put the days in parentheses after the times, e.g. "9-5 (MO-FR)"
+function isLegacySchedule(schedule: string): boolean {
+  return /\(\s*[A-Za-z]{2}\b[^)]*\)/.test(schedule)
+}
+
+/**
+ * Parses a schedule string in either dialect, throwing if any part of it is malformed.
+ */
+function parseScheduleStrict(schedule: string): ScheduleParseResult {
+  const legacy = isLegacySchedule(schedule)
+
+  // A trailing time zone, e.g. "America/Los_Angeles" or "PST". The old dialect allowed
+  // abbreviations in any case; in OSM values they have to be upper case so they aren't
+  // confused with "off" and friends.
+  const tzMatch = legacy
+    ? schedule.match(/\s([A-Za-z_]+(?:\/[A-Za-z0-9_+\-]+)+|[A-Z]{2,5})\s*$/i)
+    : schedule.match(/\s(?!PH\s*$|SH\s*$)([A-Z][A-Za-z_]*(?:\/[A-Za-z0-9_+\-]+)+|[A-Z]{2,5})\s*$/)
+  const timeZone = tzMatch ? resolveTimeZone(tzMatch[1]) : null
+  const body = tzMatch ? schedule.slice(0, tzMatch.index) : schedule
+
+  if (tzMatch && !timeZone) {
+    throw new Error(`Unknown time zone: ${tzMatch[1]}`)
+  }
+
+  if (body.trim() === "") {
+    throw new Error("Schedule is empty")
+  }
+
+  const rules = legacy
+    ? parseLegacyRules(body)
+    : splitOsmRules(body).map(({ kind, text }) => parseOsmRule(text, kind))
+
+  return { rules, timeZone, timeZoneName: tzMatch ? tzMatch[1] : null }
+}
+
+/**
+ * Parses a schedule string. Returns an empty schedule (never open) if the string is malformed.
+ */
+function parseSchedule(schedule: string): ScheduleParseResult {
+  try {
+    return parseScheduleStrict(schedule)
+  } catch (err) {
+    console.error("Failed to parse schedule:", err)
+    return { rules: [], timeZone: null, timeZoneName: null }
+  }
+}
+
+/**
+ * Checks that a schedule string can be parsed, returning the problem or null if it is valid.
+ */
+export function validateSchedule(schedule: string): string | null {
+  try {
+    parseScheduleStrict(schedule)
+    return null
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err)
+  }
+}
+
+// ISO 8601 week number of a calendar day
+function getIsoWeek({ year, month, day }: LocalDay): number {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  const weekday = (date.getUTCDay() + 6) % 7
+  date.setUTCDate(date.getUTCDate() - weekday + 3) // Thursday of the same week decides the year
+  const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1)
+  return 1 + Math.floor((date.getTime() - yearStart) / (7 * 86400000))
+}
+
+function inRange(value: number, { from, to, step }: NumberRange): boolean {
+  const within = from <= to ? value >= from && value <= to : value >= from || value <= to
+  return within && (!step || (value - from) % step === 0)
+}
+
+function matchesMonths(rule: OpeningHoursRule, { month, day }: LocalDay): boolean {
+  const ordinal = month * 100 + day
+  return rule.months.some(({ from, to }) => {
+    const start = from.month * 100 + (from.day ?? 1)
+    const end = to.month * 100 + (to.day ?? 31)
+    // Ranges like Nov-Feb wrap around the new year
+    return start <= end ? ordinal >= start && ordinal <= end : ordinal >= start || ordinal <= end
+  })
+}
+
+function matchesWeekdays(rule: OpeningHoursRule, localDay: LocalDay): boolean {
+  const daysInMonth = new Date(Date.UTC(localDay.year, localDay.month, 0)).getUTCDate()
+
+  return rule.weekdays.some(({ day, nth }) => {
+    if (day !== localDay.weekday) return false
+    if (!nth) return true
+
+    return nth.some(n => n > 0
+      ? Math.ceil(localDay.day / 7) === n
+      : Math.floor((daysInMonth - localDay.day) / 7) === -n - 1)
+  })
+}
+
+function formatLocalDay({ year, month, day }: LocalDay): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`
+}
+
+function matchesDay(rule: OpeningHoursRule, localDay: LocalDay, options: ScheduleOptions): boolean {
+  if (rule.years.length > 0 && !rule.years.some(range => inRange(localDay.year, range))) return false
+  if (rule.months.length > 0 && !matchesMonths(rule, localDay)) return false
+  if (rule.weeks.length > 0 && !rule.weeks.some(range => inRange(getIsoWeek(localDay), range))) return false
+
+  // Weekdays and holidays are alternatives, e.g. "Sa,Su,PH" matches weekends and holidays
+  const hasDaySelector = rule.weekdays.length > 0 || rule.publicHoliday || rule.schoolHoliday
+  if (!hasDaySelector) return true
+
+  const date = formatLocalDay(localDay)
+  return matchesWeekdays(rule, localDay) ||
+    (rule.publicHoliday && Boolean(options.holidays?.includes(date))) ||
+    (rule.schoolHoliday && Boolean(options.schoolHolidays?.includes(date)))
+}
+
+// ISO dates compare correctly as strings
+function isAvailableOn(localDay: LocalDay, { from, until, dates, except }: Availability): boolean {
+  const date = formatLocalDay(localDay)
+  if (from && date < from) return false
+  if (until && date > until) return false
+  if (dates && dates.length > 0 && !dates.includes(date)) return false
+  return !except?.includes(date)
+}
+
+// Removes spans from a list of open spans
+function subtractSpans(open: TimeSpan[], closed: TimeSpan[]): TimeSpan[] {
+  return closed.reduce((remaining, cut) => remaining.flatMap(span => {
+    if (cut.end <= span.start || cut.start >= span.end) return [span]
+    return [
+      ...(span.start < cut.start ? [{ start: span.start, end: cut.start }] : []),
+      ...(cut.end < span.end ? [{ start: cut.end, end: span.end }] : []),
+    ]
+  }), open)
+}
+
+// Rough times for sun events when a stop's location isn't known, as opening_hours.js uses
+const DEFAULT_SUN_TIMES: Record<SunEvent, number> = { dawn: 330, sunrise: 360, sunset: 1080, dusk: 1110 }
+
+/**
+ * Minutes since the start of a local day for a time as written in a rule. Null when it is
+ * a sun event that doesn't happen that day.
+ */
+function resolveTime(value: TimeValue, localDay: LocalDay, timeZone: string, location?: LatLng): number | null {
+  if (typeof value === "number") return value
+  if (!location) return DEFAULT_SUN_TIMES[value.event] + value.offset
+
+  const at = getSunTimes(localDay.year, localDay.month, localDay.day, location.lat, location.lng)[value.event]
+  if (!at) return null
+
+  // The event can fall on a neighbouring local day, e.g. dusk past midnight in the far north
+  const local = getLocalTime(at, timeZone)
+  const dayDifference = Date.UTC(local.localDay.year, local.localDay.month - 1, local.localDay.day) -
+    Date.UTC(localDay.year, localDay.month - 1, localDay.day)
+  return dayDifference / 60000 + local.minutes + value.offset
+}
+
+function resolveSpans(times: RuleTimeSpan[], localDay: LocalDay, timeZone: string, location?: LatLng): TimeSpan[] {
+  return times.flatMap(span => {
+    const start = resolveTime(span.start, localDay, timeZone, location)
+    const end = resolveTime(span.end, localDay, timeZone, location)
+    if (start === null || end === null) return []
+    return [{ start, end: end <= start ? end + 1440 : end }]
+  })
+}
+
+/**
+ * Works out the open spans for one local day by applying the rules in order
+ */
+function getOpenSpans(rules: OpeningHoursRule[], localDay: LocalDay, timeZone: string, options: ScheduleOptions) {
+  if (options.availability?.some(availability => !isAvailableOn(localDay, availability))) {
+    return { spans: [], comment: undefined }
+  }
+
+  let spans: TimeSpan[] = []
+  let comment: string | undefined
+  let matchedAny = false
+
+  for (const rule of rules) {
+    if (rule.kind === "fallback" && matchedAny) continue
+    if (!matchesDay(rule, localDay, options)) continue
+
+    // A normal rule that matches a day replaces whatever earlier rules said about it
+    if (rule.kind !== "additional") {
+      spans = []
+      comment = undefined
+    }
+    matchedAny = true
+
+    const ruleSpans = rule.times.length > 0
+      ? resolveSpans(rule.times, localDay, timeZone, options.location)
+      : [{ start: 0, end: 1440 }]
+    spans = rule.state === "open" ? [...spans, ...ruleSpans] : subtractSpans(spans, ruleSpans)
+    comment = rule.comment ?? comment
+  }
+
+  return { spans, comment }
+}
+
+/**
+ * Converts a Date to the calendar day and minutes since midnight in a time zone
+ */
+function getLocalTime(date: Date, timeZone: string): { localDay: LocalDay; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    weekday: "short",
+    hour: "numeric",
+    minute: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date)
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value ?? ""
+
+  return {
+    localDay: {
+      year: Number(part("year")),
+      month: Number(part("month")),
+      day: Number(part("day")),
+      weekday: WEEKDAYS.indexOf(part("weekday").slice(0, 2).toLowerCase()),
+    },
+    minutes: Number(part("hour")) * 60 + Number(part("minute")),
+  }
+}
+
+/**
+ * Converts a wall-clock time in a time zone back to an instant (ms since the epoch). Times
+ * that don't exist because the clocks went forward land just after the gap.
+ */
+function getInstant({ year, month, day }: LocalDay, minutes: number, timeZone: string): number {
+  const wallClock = Date.UTC(year, month - 1, day) + minutes * 60000
+  const offsetAt = (instant: number) => {
+    const local = getLocalTime(new Date(instant), timeZone)
+    const localWallClock = Date.UTC(local.localDay.year, local.localDay.month - 1, local.localDay.day) + local.minutes * 60000
+    return localWallClock - Math.floor(instant / 60000) * 60000
+  }
+
+  // The offset at the wall-clock time read as UTC is close; check it again at the result in
+  // case a daylight saving change falls between the two
+  const guess = wallClock - offsetAt(wallClock)
+  return wallClock - offsetAt(guess)
+}
+
+// Zone a schedule is evaluated in: the one it names, then the stop's, then the device's
+function pickTimeZone(named: string | null, options: ScheduleOptions): string {
+  if (named) return named
+  if (options.location) return getTimeZoneForLocation(options.location.lat, options.location.lng)
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+// The calendar day a number of days away, e.g. -1 for the day before
+function addDays({ year, month, day }: LocalDay, days: number): LocalDay {
+  const date = new Date(Date.UTC(year, month - 1, day + days))
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: (date.getUTCDay() + 6) % 7,
+  }
+}
+
+// How far ahead to look for the next opening; a year covers seasonal rules and closed dates
+const NEXT_OPENING_SEARCH_DAYS = 366
+
+/**
+ * Finds the instant the schedule next opens after a local time, looking a day at a time
+ * so that closed days, holidays and date exceptions are skipped over.
+ */
+function findNextOpening(
+  rules: OpeningHoursRule[],
+  localDay: LocalDay,
+  minutes: number,
+  timeZone: string,
+  options: ScheduleOptions
+): Date | null {
+  for (let offset = 0; offset <= NEXT_OPENING_SEARCH_DAYS; offset++) {
+    const day = addDays(localDay, offset)
+    const starts = getOpenSpans(rules, day, timeZone, options).spans
+      .map(({ start }) => start)
+      .filter(start => offset > 0 || start > minutes)
+
+    if (starts.length > 0) {
+      return new Date(getInstant(day, Math.min(...starts), timeZone))
+    }
+  }
+
+  return null
+}
+
+/**
+ * Describes when a stop next opens in its own time zone, e.g. "9:00", "Tuesday 9:00" or
+ * "12 March 9:00" depending on how far away it is.
+ */
+export function formatNextOpening(at: Date, timeZone: string, now: Date = new Date()): string {
+  const time = new Intl.DateTimeFormat("en-GB", { timeZone, hour: "numeric", minute: "2-digit", hourCycle: "h23" }).format(at)
+  const today = getLocalTime(now, timeZone).localDay
+  const openingDay = getLocalTime(at, timeZone).localDay
+  const daysAway = Math.round(
+    (Date.UTC(openingDay.year, openingDay.month - 1, openingDay.day) - Date.UTC(today.year, today.month - 1, today.day)) / 86400000
+  )
+
+  if (daysAway === 0) return time
+  if (daysAway < 7) {
+    return `${new Intl.DateTimeFormat("en-GB", { timeZone, weekday: "long" }).format(at)} ${time}`
+  }
+  return `${new Intl.DateTimeFormat("en-GB", { timeZone, day: "numeric", month: "long" }).format(at)} ${time}`
+}
+
+/**
+ * Determines if the current time is within any scheduled ranges and provides extra info.
+ * When closed, `nextOpenAt` is when it next opens, possibly days away, or null if it doesn't
+ * open again within a year. Without a schedule, only the availability limits apply.
+ */
+export function getScheduleStatus(date: Date, schedule: string | undefined, options: ScheduleOptions = {}) {
+  const parsed = schedule ? parseSchedule(schedule) : { rules: [emptyRule("normal")], timeZone: null, timeZoneName: null }
+  const rules = parsed.rules
+  const timeZone = pickTimeZone(parsed.timeZone, options)
+  const { localDay, minutes } = getLocalTime(date, timeZone)
+
+  const today = getOpenSpans(rules, localDay, timeZone, options)
+  const yesterday = getOpenSpans(rules, addDays(localDay, -1), timeZone, options)
+
+  const openToday = today.spans.some(({ start, end }) => minutes >= start && minutes < end)
+  // Handle overnight shifts: past midnight but still within one of yesterday's spans
+  const openFromYesterday = yesterday.spans.some(({ end }) => minutes < end - 1440)
+
+  if (openToday || openFromYesterday) {
+    return {
+      open: true,
+      nextOpenAt: null,
+      nextOpenIn: null,
+      timeZone,
+      comment: openToday ? today.comment : yesterday.comment,
+    }
+  }
+
+  const nextOpenAt = findNextOpening(rules, localDay, minutes, timeZone, options)
+
+  // Measured in real minutes rather than wall-clock ones, so a daylight saving change in
+  // between is accounted for
+  return {
+    open: false,
+    nextOpenAt,
+    nextOpenIn: nextOpenAt ? Math.ceil((nextOpenAt.getTime() - date.getTime()) / 60000) : null,
+    timeZone,
+    comment: today.comment,
+  }
+}
+
+/**
+ * Where a moment falls relative to a placelist's active window, judged by the date at the
+ * given location (or on this device, without one)
+ */
+export function getWindowPhase(
+  date: Date,
+  { from, until }: Availability,
+  location?: LatLng
+): "before" | "during" | "after" {
+  const timeZone = pickTimeZone(null, { location })
+  const today = formatLocalDay(getLocalTime(date, timeZone).localDay)
+  if (from && today < from) return "before"
+  if (until && today > until) return "after"
+  return "during"
+}
+
+/**
+ * Describes availability limits for players, e.g. "2026-06-01 to 2026-08-31, except 2026-07-04"
+ */
+export function describeAvailability({ from, until, dates, except }: Availability): string {
+  const parts = []
+  if (from && until) parts.push(`${from} to ${until}`)
+  else if (from) parts.push(`from ${from}`)
+  else if (until) parts.push(`until ${until}`)
+  if (dates && dates.length > 0) parts.push(`only on ${dates.join(", ")}`)
+  if (except && except.length > 0) parts.push(`except ${except.join(", ")}`)
+  return parts.join(", ")
+}
+
+/**
+ * The time zone a schedule is evaluated in for a stop, as getScheduleStatus would use
+ */
+export function getScheduleTimeZone(schedule: string | undefined, options: ScheduleOptions = {}): string {
+  return pickTimeZone(schedule ? parseSchedule(schedule).timeZone : null, options)
+}
+
+/**
+ * Formats a moment as a `datetime-local` value ("YYYY-MM-DDTHH:MM") in a time zone
+ */
+export function formatZonedDateTime(date: Date, timeZone: string): string {
+  const { localDay, minutes } = getLocalTime(date, timeZone)
+  return `${formatLocalDay(localDay)}T${formatMinutes(minutes)}`
+}
+
+/**
+ * Reads a `datetime-local` value ("YYYY-MM-DDTHH:MM") as a wall-clock time in a time zone
+ */
+export function parseZonedDateTime(value: string, timeZone: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/)
+  if (!match) return null
+
+  const [, year, month, day, hours, minutes] = match.map(Number)
+  const weekday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7
+  return new Date(getInstant({ year, month, day, weekday }, hours * 60 + minutes, timeZone))
+}
+
+/**
+ * Opening hours for each day of the week, Monday first, as "HH:MM" spans
+ */
+export type WeeklyHours = Array<Array<{ start: string; end: string }>>
+
+// "HH:MM" for minutes since midnight; spans past midnight wrap round to the next day
+function formatMinutes(minutes: number): string {
+  if (minutes === 1440) return "24:00"
+  const wrapped = ((minutes % 1440) + 1440) % 1440
+  return `${String(Math.floor(wrapped / 60)).padStart(2, "0")}:${String(wrapped % 60).padStart(2, "0")}`
+}
+
+/**
+ * Reads a schedule as plain weekly hours, for editing in a grid. Returns null when the
+ * schedule uses anything a weekly grid can't show, like dates, holidays or sun times.
+ */
+export function getWeeklyHours(schedule: string): { days: WeeklyHours; timeZoneName: string | null } | null {
+  if (schedule.trim() === "") {
+    return { days: WEEKDAYS.map(() => []), timeZoneName: null }
+  }
+
+  let parsed: ScheduleParseResult
+  try {
+    parsed = parseScheduleStrict(schedule)
+  } catch {
+    return null
+  }
+
+  const days: TimeSpan[][] = WEEKDAYS.map(() => [])
+
+  for (const rule of parsed.rules) {
+    // "Tu off" closes a whole day; closing part of one can't be shown
+    const isClosedDay = rule.kind === "normal" && rule.state === "closed" && rule.times.length === 0
+    const isWeekly = rule.kind !== "fallback" && (rule.state === "open" || isClosedDay) && !rule.comment &&
+      rule.years.length === 0 && rule.months.length === 0 && rule.weeks.length === 0 &&
+      !rule.publicHoliday && !rule.schoolHoliday && rule.weekdays.every(({ nth }) => !nth) &&
+      rule.times.every(({ start, end }) => typeof start === "number" && typeof end === "number")
+    if (!isWeekly) return null
+
+    const ruleDays = rule.weekdays.length > 0 ? rule.weekdays.map(({ day }) => day) : WEEKDAYS.map((_, day) => day)
+    const spans = rule.times.length > 0 ? rule.times as TimeSpan[] : [{ start: 0, end: 1440 }]
+    for (const day of ruleDays) {
+      days[day] = isClosedDay ? [] : rule.kind === "normal" ? [...spans] : [...days[day], ...spans]
+    }
+  }
+
+  return {
+    days: days.map(spans => spans.map(({ start, end }) => ({ start: formatMinutes(start), end: formatMinutes(end) }))),
+    timeZoneName: parsed.timeZoneName,
+  }
+}
+
+// "Mo-We,Fr" for [0, 1, 2, 4]
+function formatWeekdays(days: number[]): string {
+  const name = (day: number) => WEEKDAYS[day][0].toUpperCase() + WEEKDAYS[day][1]
+  const ranges: string[] = []
+
+  for (let i = 0; i < days.length; i++) {
+    let j = i
+    while (j + 1 < days.length && days[j + 1] === days[j] + 1) j++
+    ranges.push(j === i ? name(days[i]) : j === i + 1 ? `${name(days[i])},${name(days[j])}` : `${name(days[i])}-${name(days[j])}`)
+    i = j
+  }
+
+  return ranges.join(",")
+}
+
+/**
+ * Writes weekly hours as an OSM opening_hours value, grouping days with the same hours,
+ * e.g. "Mo-Fr 09:00-17:00; Sa 10:00-14:00 Europe/London". Empty when no day has hours.
+ */
+export function formatWeeklyHours(days: WeeklyHours, timeZoneName: string | null = null): string {
+  const groups = new Map<string, number[]>()
+
+  days.forEach((spans, day) => {
+    if (spans.length === 0) return
+    const hours = spans.map(({ start, end }) => `${start}-${end}`).join(",")
+    groups.set(hours, [...(groups.get(hours) ?? []), day])
+  })
+
+  const value = [...groups].map(([hours, groupDays]) => `${formatWeekdays(groupDays)} ${hours}`).join("; ")
+  return value && timeZoneName ? `${value} ${timeZoneName}` : value
+}
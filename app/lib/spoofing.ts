@@ -0,0 +1,84 @@
+/**
+ * Heuristics for spotting faked GPS. Each position a player's device reports is compared with
+ * the ones before it; none of the signs is proof on its own, so authors choose whether they
+ * only flag a session for review or also refuse to unlock stops.
+ */
+
+import { calculateDistance } from "./utils"
+
+export type SpoofingStrictness = "off" | "flag" | "reject"
+
+export const SPOOFING_STRICTNESS_LEVELS: Array<{ value: SpoofingStrictness; label: string }> = [
+  { value: "off", label: "Off: trust every location" },
+  { value: "flag", label: "Flag suspicious sessions for review" },
+  { value: "reject", label: "Flag them and refuse to unlock stops" },
+]
+
+export const DEFAULT_SPOOFING_STRICTNESS: SpoofingStrictness = "flag"
+
+// Faster than a high-speed train, once both fixes' accuracy has been allowed for
+const MAX_PLAUSIBLE_SPEED = 100 // meters per second
+// Phone GPS is rarely better than a few meters; mock location apps often report 0 or 1
+const MIN_PLAUSIBLE_ACCURACY = 1 // meters
+// Real fixes jitter in the last decimal places even when standing still
+const MAX_IDENTICAL_FIXES = 5
+
+/**
+ * A position as reported by a player's device
+ */
+export interface PositionReport {
+  lat: number
+  lng: number
+  accuracy: number | null // meters
+  timestamp: number       // When the fix was taken, in ms since the epoch
+}
+
+/**
+ * Reads a stored or submitted strictness, falling back to the default for anything unknown
+ */
+export function parseSpoofingStrictness(value: unknown): SpoofingStrictness {
+  return SPOOFING_STRICTNESS_LEVELS.some(level => level.value === value)
+    ? value as SpoofingStrictness
+    : DEFAULT_SPOOFING_STRICTNESS
+}
+
+/**
+ * Reasons a report looks faked, given the session's earlier reports oldest first.
+ * An empty list means nothing stood out.
+ */
+export function findSpoofingSigns(previous: PositionReport[], report: PositionReport): string[] {
+  const signs: string[] = []
+
+  if (report.accuracy === null) {
+    signs.push("No accuracy was reported with the location")
+  } else if (report.accuracy < MIN_PLAUSIBLE_ACCURACY) {
+    signs.push(`Reported accuracy of ${report.accuracy} m is better than phone GPS can manage`)
+  }
+
+  // Requests can arrive out of order, so compare with the fixes taken before this one
+  const earlier = previous.filter(fix => fix.timestamp <= report.timestamp)
+
+  const last = earlier[earlier.length - 1]
+  if (last) {
+    const seconds = (report.timestamp - last.timestamp) / 1000
+    // Either fix could be off by its accuracy, so only movement beyond that counts
+    const slack = (last.accuracy ?? 0) + (report.accuracy ?? 0)
+    const moved = Math.max(0, calculateDistance(last.lat, last.lng, report.lat, report.lng) - slack)
+
+    if (moved > 0 && (seconds === 0 || moved / seconds > MAX_PLAUSIBLE_SPEED)) {
+      const speed = seconds === 0 ? "instantly" : `at ${Math.round((moved / seconds) * 3.6)} km/h`
+      signs.push(`Moved ${Math.round(moved)} m ${speed}`)
+    }
+  }
+
+  const recent = [...earlier.slice(-(MAX_IDENTICAL_FIXES - 1)), report]
+  const identical = recent.length === MAX_IDENTICAL_FIXES && recent.every(fix =>
+    fix.lat === report.lat && fix.lng === report.lng && fix.accuracy === report.accuracy
+  )
+  const distinctTimes = new Set(recent.map(fix => fix.timestamp)).size === recent.length
+  if (identical && distinctTimes) {
+    signs.push(`Exactly the same coordinates were reported ${MAX_IDENTICAL_FIXES} times in a row`)
+  }
+
+  return signs
+}
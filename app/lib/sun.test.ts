@@ -0,0 +1,29 @@
+import { describe, expect, test } from "bun:test"
+import { getSunTimes } from "./sun"
+
+// Minutes past midnight UTC
+const minutesOf = (date: Date | null) => date && date.getUTCHours() * 60 + date.getUTCMinutes()
+
+describe("getSunTimes", () => {
+  test("matches published times for London at midsummer", () => {
+    // Sunrise 04:43 and sunset 21:21 BST on 21 June 2026
+    const times = getSunTimes(2026, 6, 21, 51.5074, -0.1278)
+
+    expect(Math.abs(minutesOf(times.sunrise)! - (3 * 60 + 43))).toBeLessThanOrEqual(2)
+    expect(Math.abs(minutesOf(times.sunset)! - (20 * 60 + 21))).toBeLessThanOrEqual(2)
+    expect(times.dawn!.getTime()).toBeLessThan(times.sunrise!.getTime())
+    expect(times.dusk!.getTime()).toBeGreaterThan(times.sunset!.getTime())
+  })
+
+  test("has no sunrise in the polar night", () => {
+    const times = getSunTimes(2026, 12, 21, 69.65, 18.96)
+
+    expect(times.sunrise).toBeNull()
+    expect(times.sunset).toBeNull()
+  })
+
+  test("puts sunrise and sunset either side of noon when the sun never sets", () => {
+    const times = getSunTimes(2026, 6, 21, 69.65, 18.96)
+    expect(times.sunset!.getTime() - times.sunrise!.getTime()).toBe(24 * 60 * 60 * 1000)
+  })
+})
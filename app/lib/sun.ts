@@ -0,0 +1,83 @@
+/**
+ * Sunrise, sunset and civil twilight times, worked out offline with the NOAA solar
+ * calculator equations. Accurate to within a minute or two away from the poles.
+ */
+
+export type SunEvent = "dawn" | "sunrise" | "sunset" | "dusk"
+
+// Angle of the sun's centre below the zenith at each event, in degrees. Sunrise and sunset
+// allow for refraction and the size of the sun's disc; dawn and dusk are civil twilight.
+const ZENITH: Record<SunEvent, number> = {
+  dawn: 96,
+  sunrise: 90.833,
+  sunset: 90.833,
+  dusk: 96,
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+const toDegrees = (radians: number) => (radians * 180) / Math.PI
+
+/**
+ * Times of the sun events at a place on a calendar day. An event is null when it doesn't
+ * happen that day (the sun stays below the horizon in polar night); when the sun never
+ * sets, sunrise and sunset are twelve hours either side of solar noon.
+ */
+export function getSunTimes(
+  year: number,
+  month: number,
+  day: number,
+  lat: number,
+  lng: number
+): Record<SunEvent, Date | null> {
+  const midnight = Date.UTC(year, month - 1, day)
+
+  // Julian centuries since J2000, at noon UTC on the day
+  const julianDay = (midnight + 12 * 3600000) / 86400000 + 2440587.5
+  const t = (julianDay - 2451545) / 36525
+
+  const meanLongitude = (280.46646 + t * (36000.76983 + t * 0.0003032)) % 360
+  const meanAnomaly = toRadians(357.52911 + t * (35999.05029 - 0.0001537 * t))
+  const eccentricity = 0.016708634 - t * (0.000042037 + 0.0000001267 * t)
+  const centre =
+    Math.sin(meanAnomaly) * (1.914602 - t * (0.004817 + 0.000014 * t)) +
+    Math.sin(2 * meanAnomaly) * (0.019993 - 0.000101 * t) +
+    Math.sin(3 * meanAnomaly) * 0.000289
+  const omega = toRadians(125.04 - 1934.136 * t)
+  const apparentLongitude = toRadians(meanLongitude + centre - 0.00569 - 0.00478 * Math.sin(omega))
+  const obliquity = toRadians(
+    23 + (26 + (21.448 - t * (46.815 + t * (0.00059 - t * 0.001813))) / 60) / 60 + 0.00256 * Math.cos(omega)
+  )
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(apparentLongitude))
+
+  // Equation of time, in minutes
+  const y = Math.tan(obliquity / 2) ** 2
+  const l0 = toRadians(meanLongitude)
+  const equationOfTime = 4 * toDegrees(
+    y * Math.sin(2 * l0) -
+    2 * eccentricity * Math.sin(meanAnomaly) +
+    4 * eccentricity * y * Math.sin(meanAnomaly) * Math.cos(2 * l0) -
+    0.5 * y * y * Math.sin(4 * l0) -
+    1.25 * eccentricity * eccentricity * Math.sin(2 * meanAnomaly)
+  )
+
+  // Minutes after midnight UTC; can fall on the day before or after for far-off longitudes
+  const solarNoon = 720 - 4 * lng - equationOfTime
+  const latitude = toRadians(lat)
+
+  const eventTime = (event: SunEvent, direction: -1 | 1): Date | null => {
+    const cosHourAngle =
+      Math.cos(toRadians(ZENITH[event])) / (Math.cos(latitude) * Math.cos(declination)) -
+      Math.tan(latitude) * Math.tan(declination)
+    if (cosHourAngle > 1) return null
+
+    const hourAngle = toDegrees(Math.acos(Math.max(-1, cosHourAngle)))
+    return new Date(midnight + (solarNoon + direction * 4 * hourAngle) * 60000)
+  }
+
+  return {
+    dawn: eventTime("dawn", -1),
+    sunrise: eventTime("sunrise", -1),
+    sunset: eventTime("sunset", 1),
+    dusk: eventTime("dusk", 1),
+  }
+}
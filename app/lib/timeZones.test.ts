@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test"
+import { getTimeZoneForLocation, resolveTimeZone } from "./timeZones"
+
+describe("resolveTimeZone", () => {
+  test("turns abbreviations into zones that keep daylight saving", () => {
+    expect(resolveTimeZone("PST")).toBe("America/Los_Angeles")
+    expect(resolveTimeZone("bst")).toBe("Europe/London")
+  })
+
+  test("accepts IANA names the runtime knows", () => {
+    expect(resolveTimeZone("America/Argentina/Buenos_Aires")).toBe("America/Argentina/Buenos_Aires")
+    expect(resolveTimeZone("Europe/Atlantis")).toBeNull()
+    expect(resolveTimeZone("XYZ")).toBeNull()
+  })
+})
+
+describe("getTimeZoneForLocation", () => {
+  test("finds the zone of cities", () => {
+    expect(getTimeZoneForLocation(51.5074, -0.1278)).toBe("Europe/London")
+    expect(getTimeZoneForLocation(53.35, -6.26)).toBe("Europe/Dublin")
+    expect(getTimeZoneForLocation(48.8566, 2.3522)).toBe("Europe/Paris")
+    expect(getTimeZoneForLocation(40.7128, -74.006)).toBe("America/New_York")
+    expect(getTimeZoneForLocation(33.45, -112.07)).toBe("America/Phoenix")
+    expect(getTimeZoneForLocation(28.61, 77.21)).toBe("Asia/Kolkata")
+    expect(getTimeZoneForLocation(-33.87, 151.21)).toBe("Australia/Sydney")
+  })
+
+  test("keeps neighbours with other offsets apart", () => {
+    // Calais, Boulogne and Dieppe across the Channel from Dover, Hastings and Brighton
+    expect(getTimeZoneForLocation(50.95, 1.86)).toBe("Europe/Paris")
+    expect(getTimeZoneForLocation(50.73, 1.61)).toBe("Europe/Paris")
+    expect(getTimeZoneForLocation(49.92, 1.08)).toBe("Europe/Paris")
+    expect(getTimeZoneForLocation(51.13, 1.31)).toBe("Europe/London")
+    expect(getTimeZoneForLocation(50.85, 0.57)).toBe("Europe/London")
+    expect(getTimeZoneForLocation(50.82, -0.14)).toBe("Europe/London")
+
+    expect(getTimeZoneForLocation(27.72, 85.32)).toBe("Asia/Kathmandu")
+    expect(getTimeZoneForLocation(28.21, 83.99)).toBe("Asia/Kathmandu")
+    expect(getTimeZoneForLocation(26.85, 80.95)).toBe("Asia/Kolkata")
+    expect(getTimeZoneForLocation(16.8, 96.15)).toBe("Asia/Yangon")
+    expect(getTimeZoneForLocation(21.97, 96.08)).toBe("Asia/Yangon")
+    expect(getTimeZoneForLocation(18.79, 98.98)).toBe("Asia/Bangkok")
+    expect(getTimeZoneForLocation(34.53, 69.17)).toBe("Asia/Kabul")
+    expect(getTimeZoneForLocation(34.35, 62.2)).toBe("Asia/Kabul")
+    expect(getTimeZoneForLocation(34.01, 71.58)).toBe("Asia/Karachi")
+    expect(getTimeZoneForLocation(36.3, 59.6)).toBe("Asia/Tehran")
+  })
+
+  test("falls back to the nautical zone at sea", () => {
+    expect(getTimeZoneForLocation(0, -30)).toBe("Etc/GMT+2")
+    expect(getTimeZoneForLocation(-40, 80)).toBe("Etc/GMT-5")
+    expect(getTimeZoneForLocation(0, 1)).toBe("UTC")
+  })
+})
@@ -0,0 +1,211 @@
+/**
+ * Time zone helpers for schedules: naming zones, and working out a stop's zone from its
+ * coordinates without calling out to a geocoding service.
+ */
+
+/**
+ * Common abbreviations and the IANA zone they stand for. Each maps to a zone that observes
+ * daylight saving where the region does, so "PST" written in winter still means Pacific time
+ * in summer.
+ */
+const ABBREVIATIONS: Record<string, string> = {
+  UTC: "UTC",
+  GMT: "UTC",
+  Z: "UTC",
+  PST: "America/Los_Angeles",
+  PDT: "America/Los_Angeles",
+  PT: "America/Los_Angeles",
+  MST: "America/Denver",
+  MDT: "America/Denver",
+  MT: "America/Denver",
+  CST: "America/Chicago",
+  CDT: "America/Chicago",
+  CT: "America/Chicago",
+  EST: "America/New_York",
+  EDT: "America/New_York",
+  ET: "America/New_York",
+  AKST: "America/Anchorage",
+  AKDT: "America/Anchorage",
+  HST: "Pacific/Honolulu",
+  AST: "America/Halifax",
+  ADT: "America/Halifax",
+  NST: "America/St_Johns",
+  NDT: "America/St_Johns",
+  BST: "Europe/London",
+  IST: "Asia/Kolkata",
+  WET: "Europe/Lisbon",
+  WEST: "Europe/Lisbon",
+  CET: "Europe/Paris",
+  CEST: "Europe/Paris",
+  EET: "Europe/Athens",
+  EEST: "Europe/Athens",
+  MSK: "Europe/Moscow",
+  SAST: "Africa/Johannesburg",
+  JST: "Asia/Tokyo",
+  KST: "Asia/Seoul",
+  HKT: "Asia/Hong_Kong",
+  SGT: "Asia/Singapore",
+  AWST: "Australia/Perth",
+  ACST: "Australia/Adelaide",
+  ACDT: "Australia/Adelaide",
+  AEST: "Australia/Sydney",
+  AEDT: "Australia/Sydney",
+  NZST: "Pacific/Auckland",
+  NZDT: "Pacific/Auckland",
+}
+
+/**
+ * Whether the runtime knows a time zone name
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Turns a zone as written in a schedule (an IANA name like "America/Los_Angeles" or an
+ * abbreviation like "PST") into an IANA name, or null if it isn't one we recognise.
+ */
+export function resolveTimeZone(name: string): string | null {
+  const abbreviation = ABBREVIATIONS[name.toUpperCase()]
+  if (abbreviation) {
+    return abbreviation
+  }
+
+  return name.includes("/") && isValidTimeZone(name) ? name : null
+}
+
+/**
+ * Rough outlines of the world's time zones as [south, west, north, east, zone] boxes.
+ * Boxes are checked in order, so smaller regions come before the larger ones they sit in.
+ * Borders are approximate: a stop near a zone boundary may land on the wrong side, which is
+ * why authors can always name the zone in the schedule instead. Zones with an offset unlike
+ * their neighbours' (Nepal, Myanmar, Afghanistan) are made of several boxes kept inside the
+ * border, so only stops close to it fall through to the neighbouring zone.
+ * Where neighbours share the same offsets and daylight saving rules (most of the EU, say),
+ * one zone stands in for all of them.
+ */
+const ZONE_BOXES: Array<[number, number, number, number, string]> = [
+  // North America
+  [18.5, -160.5, 22.5, -154.5, "Pacific/Honolulu"],
+  [51, -180, 72, -141, "America/Anchorage"],
+  [31.3, -114.8, 37, -109.05, "America/Phoenix"],
+  [49, -110, 60, -101.5, "America/Regina"],
+  [46.5, -59.5, 52, -52.5, "America/St_Johns"],
+  [43, -67, 48, -59.7, "America/Halifax"],
+  [14.5, -106, 25.9, -86.7, "America/Mexico_City"],
+  [24, -125, 72, -114.5, "America/Los_Angeles"],
+  [24, -114.5, 72, -102, "America/Denver"],
+  [24, -102, 72, -86.5, "America/Chicago"],
+  [24, -86.5, 72, -52.5, "America/New_York"],
+
+  // Central and South America
+  [7, -92.5, 18.5, -77, "America/Guatemala"],
+  [-4.5, -79.5, 13, -67.5, "America/Bogota"],
+  [-18.5, -81.5, -0.5, -68.5, "America/Lima"],
+  [-27.5, -71.5, -17.5, -67.8, "America/Santiago"],
+  [-56, -76, -27.5, -70, "America/Santiago"],
+  [-55, -73.6, -21.8, -53.6, "America/Argentina/Buenos_Aires"],
+  [-11, -74, 5.3, -56, "America/Manaus"],
+  [-34, -74, 5.3, -34.7, "America/Sao_Paulo"],
+
+  // Africa and the Middle East
+  [29.5, 34.2, 33.4, 35.9, "Asia/Jerusalem"],
+  [22, 24.7, 31.7, 36.9, "Africa/Cairo"],
+  [-35, 16.4, -22.1, 33, "Africa/Johannesburg"],
+  [-4.8, 33.9, 5.1, 41.9, "Africa/Nairobi"],
+  [4, 2.7, 14, 14.7, "Africa/Lagos"],
+  [27.6, -13.2, 35.9, -1, "Africa/Casablanca"],
+  [19, -1, 37.1, 12, "Africa/Algiers"],
+  [4, -17.6, 27.5, 2.7, "Africa/Abidjan"],
+  [22.6, 51.5, 26.1, 56.4, "Asia/Dubai"],
+  [16.3, 34.5, 32.2, 55.7, "Asia/Riyadh"],
+  [30, 61.6, 35.2, 66, "Asia/Kabul"],
+  [32.1, 66, 35.2, 69.3, "Asia/Kabul"],
+  [34.2, 69.3, 35.2, 70.9, "Asia/Kabul"],
+  [35.2, 64.5, 36.9, 71, "Asia/Kabul"],
+  [25, 48, 39.8, 63.3, "Asia/Tehran"],
+
+  // Europe
+  [51.3, -10.7, 55.5, -5.9, "Europe/Dublin"],
+  // Kept clear of the French coast between Dieppe and Calais
+  [51, -9, 61, 2, "Europe/London"],
+  [49.85, -6.5, 51, 0.5, "Europe/London"],
+  [50.5, 0.5, 51, 0.99, "Europe/London"],
+  [36.8, -9.6, 42.2, -6.2, "Europe/Lisbon"],
+  [27.5, -18.5, 29.5, -13.3, "Atlantic/Canary"],
+  [59.8, 19.5, 70.1, 31.6, "Europe/Helsinki"],
+  [53.8, 20.9, 59.7, 28.3, "Europe/Riga"],
+  [36, 26, 42.2, 44.8, "Europe/Istanbul"],
+  [34.8, 19.3, 41.8, 29.7, "Europe/Athens"],
+  [43.6, 22.5, 48.3, 29.8, "Europe/Bucharest"],
+  [44.3, 22.1, 52.4, 40.2, "Europe/Kyiv"],
+  [41.1, 27.3, 70, 60, "Europe/Moscow"],
+  [35.9, -9.5, 71.2, 24.2, "Europe/Paris"],
+
+  // Asia
+  [23.6, 60.8, 29.5, 71.2, "Asia/Karachi"],
+  [29.5, 66, 37.1, 74.6, "Asia/Karachi"],
+  [28.9, 80.3, 29.9, 81, "Asia/Kathmandu"],
+  [28.2, 81, 29.8, 82.5, "Asia/Kathmandu"],
+  [27.6, 82.5, 29, 84, "Asia/Kathmandu"],
+  [27.05, 84, 28.3, 85.5, "Asia/Kathmandu"],
+  [26.7, 85.5, 27.9, 87, "Asia/Kathmandu"],
+  [26.5, 87, 27.8, 88, "Asia/Kathmandu"],
+  [26.95, 89.1, 28, 91.6, "Asia/Thimphu"],
+  [15.7, 94.3, 23.5, 97.3, "Asia/Yangon"],
+  [16, 92.7, 21.1, 94.3, "Asia/Yangon"],
+  [13.5, 97.5, 16.7, 98.2, "Asia/Yangon"],
+  [10.5, 97.8, 13.5, 98.7, "Asia/Yangon"],
+  [23.5, 94.8, 25.5, 97.5, "Asia/Yangon"],
+  [25.5, 95.3, 27, 97.7, "Asia/Yangon"],
+  [20.2, 97.3, 22.5, 99, "Asia/Yangon"],
+  [22.5, 97.3, 23.8, 98.5, "Asia/Yangon"],
+  [20.6, 88.7, 26.6, 92.7, "Asia/Dhaka"],
+  [6.7, 68.1, 35.7, 97.4, "Asia/Kolkata"],
+  [40.5, 46.5, 55.5, 87.3, "Asia/Almaty"],
+  [5.6, 97.3, 20.5, 105.7, "Asia/Bangkok"],
+  [8.4, 102.1, 23.4, 109.5, "Asia/Ho_Chi_Minh"],
+  [1.1, 103.6, 1.5, 104.1, "Asia/Singapore"],
+  [0.8, 99.6, 7.4, 119.3, "Asia/Kuala_Lumpur"],
+  [-11, 95, 6, 115, "Asia/Jakarta"],
+  [4.5, 116.9, 21.2, 126.7, "Asia/Manila"],
+  [22.1, 113.8, 22.6, 114.5, "Asia/Hong_Kong"],
+  [21.8, 119.9, 25.4, 122.1, "Asia/Taipei"],
+  [33, 124.5, 38.7, 131, "Asia/Seoul"],
+  [30, 129, 45.6, 146, "Asia/Tokyo"],
+  [24, 122.9, 30, 131.5, "Asia/Tokyo"],
+  [18, 97.5, 53.6, 134.8, "Asia/Shanghai"],
+  [27, 73.5, 49.2, 97.5, "Asia/Shanghai"],
+
+  // Oceania
+  [-35.2, 112.9, -13.7, 129, "Australia/Perth"],
+  [-26, 129, -10.9, 138, "Australia/Darwin"],
+  [-38.1, 129, -26, 141, "Australia/Adelaide"],
+  [-28.2, 138, -10, 153.7, "Australia/Brisbane"],
+  [-39.2, 140.9, -33.9, 150, "Australia/Melbourne"],
+  [-43.7, 143.8, -39.5, 148.5, "Australia/Hobart"],
+  [-37.6, 141, -28.1, 153.7, "Australia/Sydney"],
+  [-47.5, 166, -34, 179, "Pacific/Auckland"],
+]
+
+/**
+ * Best guess at the IANA time zone for a point, from the table above. Points outside every box
+ * (mostly at sea) get the fixed-offset zone for their longitude.
+ */
+export function getTimeZoneForLocation(lat: number, lng: number): string {
+  for (const [south, west, north, east, zone] of ZONE_BOXES) {
+    if (lat >= south && lat <= north && lng >= west && lng <= east) {
+      return zone
+    }
+  }
+
+  // Nautical zones are 15° wide; note Etc/GMT+N is N hours *behind* UTC
+  const offset = Math.round(lng / 15)
+  if (offset === 0) return "UTC"
+  return offset > 0 ? `Etc/GMT-${offset}` : `Etc/GMT+${-offset}`
+}
@@ -0,0 +1,138 @@
+import { describe, expect, test } from "bun:test"
+import type { PlacelistItem } from "./placelistParsers"
+import { formatDuration, getUnlockTimeline, getWalkDuration, summarizeTimings } from "./timings"
+
+const MINUTE = 60 * 1000
+
+function stop(id: string): PlacelistItem {
+  return { id, location: { lat: 0, lng: 0 }, spotifyUrl: `https://open.spotify.com/track/${id}` }
+}
+
+const a = stop("a")
+const b = stop("b")
+const c = stop("c")
+const rules = { items: [a, b, c] }
+
+function at(minutes: number) {
+  return new Date(Date.UTC(2026, 0, 5, 12, minutes))
+}
+
+describe("getUnlockTimeline", () => {
+  test("times each stop from the one unlocked before it", () => {
+    const timeline = getUnlockTimeline(rules, { progress: 3, unlockedItemIds: ["a", "b", "c"] }, [
+      { itemId: "a", unlockedAt: at(0) },
+      { itemId: "b", unlockedAt: at(10) },
+      { itemId: "c", unlockedAt: at(25) },
+    ])
+
+    expect(timeline.map(({ item, sincePrevious }) => [item.id, sincePrevious])).toEqual([
+      ["a", null],
+      ["b", 10 * MINUTE],
+      ["c", 15 * MINUTE],
+    ])
+  })
+
+  test("goes by the latest time for a stop unlocked twice", () => {
+    const timeline = getUnlockTimeline(rules, { progress: 2, unlockedItemIds: ["a", "b"] }, [
+      { itemId: "a", unlockedAt: at(0) },
+      { itemId: "a", unlockedAt: at(5) },
+      { itemId: "b", unlockedAt: at(12) },
+    ])
+
+    expect(timeline[0].unlockedAt).toEqual(at(5))
+    expect(timeline[1].sincePrevious).toBe(7 * MINUTE)
+  })
+
+  test("leaves gaps for stops unlocked before events were recorded", () => {
+    const timeline = getUnlockTimeline(rules, { progress: 3, unlockedItemIds: ["a", "b", "c"] }, [
+      { itemId: "c", unlockedAt: at(30) },
+    ])
+
+    expect(timeline.map(({ unlockedAt, sincePrevious }) => [unlockedAt, sincePrevious])).toEqual([
+      [null, null],
+      [null, null],
+      [at(30), null],
+    ])
+  })
+})
+
+describe("getWalkDuration", () => {
+  test("runs from the first stop to the last", () => {
+    const timeline = getUnlockTimeline(rules, { progress: 3, unlockedItemIds: ["a", "b", "c"] }, [
+      { itemId: "a", unlockedAt: at(0) },
+      { itemId: "c", unlockedAt: at(40) },
+    ])
+
+    expect(getWalkDuration(timeline)).toBe(40 * MINUTE)
+  })
+
+  test("is unknown without both ends or with a single stop", () => {
+    const session = { progress: 2, unlockedItemIds: ["a", "b"] }
+
+    expect(getWalkDuration(getUnlockTimeline(rules, session, [{ itemId: "b", unlockedAt: at(10) }]))).toBeNull()
+    expect(getWalkDuration(getUnlockTimeline(rules, { progress: 1, unlockedItemIds: ["a"] }, [{ itemId: "a", unlockedAt: at(0) }])))
+      .toBeNull()
+    expect(getWalkDuration([])).toBeNull()
+  })
+})
+
+describe("summarizeTimings", () => {
+  const finished = (id: string) => ({ id, progress: 3, unlockedItemIds: ["a", "b", "c"] })
+  const walk = (sessionId: string, ...minutes: number[]) =>
+    minutes.map((minute, index) => ({ sessionId, itemId: rules.items[index].id!, unlockedAt: at(minute) }))
+
+  test("takes the median time to each stop and of the walks", () => {
+    const summary = summarizeTimings(
+      rules,
+      [finished("one"), finished("two"), finished("three")],
+      [...walk("one", 0, 10, 20), ...walk("two", 0, 20, 30), ...walk("three", 0, 60, 70)]
+    )
+
+    expect(summary.stops.map(({ unlocks, medianSincePrevious }) => [unlocks, medianSincePrevious])).toEqual([
+      [3, null],
+      [3, 20 * MINUTE],
+      [3, 10 * MINUTE],
+    ])
+    expect(summary.timedWalks).toBe(3)
+    expect(summary.medianWalk).toBe(30 * MINUTE)
+  })
+
+  test("averages the middle two of an even number", () => {
+    const summary = summarizeTimings(rules, [finished("one"), finished("two")], [...walk("one", 0, 10, 20), ...walk("two", 0, 20, 50)])
+    expect(summary.medianWalk).toBe(35 * MINUTE)
+  })
+
+  test("only counts finished walks towards the walk length", () => {
+    const summary = summarizeTimings(
+      rules,
+      [finished("one"), { id: "two", progress: 2, unlockedItemIds: ["a", "b"] }],
+      [...walk("one", 0, 10, 20), ...walk("two", 0, 5)]
+    )
+
+    expect(summary.stops[1]).toMatchObject({ unlocks: 2, medianSincePrevious: 7.5 * MINUTE })
+    expect(summary.timedWalks).toBe(1)
+    expect(summary.medianWalk).toBe(20 * MINUTE)
+  })
+
+  test("has nothing to say without times", () => {
+    const summary = summarizeTimings(rules, [finished("one")], [])
+
+    expect(summary.stops.map(({ medianSincePrevious }) => medianSincePrevious)).toEqual([null, null, null])
+    expect(summary).toMatchObject({ timedWalks: 0, medianWalk: null })
+  })
+})
+
+describe("formatDuration", () => {
+  test("rounds to the minute", () => {
+    expect(formatDuration(29 * 1000)).toBe("under a minute")
+    expect(formatDuration(30 * 1000)).toBe("1 min")
+    expect(formatDuration(59 * MINUTE)).toBe("59 min")
+  })
+
+  test("switches to hours at 60 minutes", () => {
+    expect(formatDuration(59.5 * MINUTE)).toBe("1 h")
+    expect(formatDuration(60 * MINUTE)).toBe("1 h")
+    expect(formatDuration(65 * MINUTE)).toBe("1 h 5 min")
+    expect(formatDuration(120 * MINUTE)).toBe("2 h")
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * How long players take between stops, worked out from when each stop was unlocked. Sessions
+ * played before unlocks were recorded have no times, so everything here allows for gaps.
+ */
+
+import type { PlacelistItem } from "./placelistParsers"
+import { getUnlockedStops, isSessionComplete, type SessionProgress, type UnlockRules } from "./unlock"
+
+/**
+ * When a stop was unlocked in a session
+ */
+export interface UnlockTime {
+  itemId: string
+  unlockedAt: Date
+}
+
+/**
+ * An unlocked stop, with when it was unlocked and how long it took to get there from the stop
+ * unlocked before it, where those are known
+ */
+export interface TimelineStop {
+  item: PlacelistItem
+  unlockedAt: Date | null
+  sincePrevious: number | null // ms
+}
+
+/**
+ * The stops a session has unlocked in the order they were unlocked, with their times
+ */
+export function getUnlockTimeline(
+  rules: Pick<UnlockRules, "items" | "playOrder">,
+  session: SessionProgress,
+  times: UnlockTime[]
+): TimelineStop[] {
+  // A stop removed and later added back may have been unlocked twice; the latest time counts
+  const latest = new Map<string, Date>()
+  for (const { itemId, unlockedAt } of times) {
+    const known = latest.get(itemId)
+    if (!known || unlockedAt > known) latest.set(itemId, unlockedAt)
+  }
+
+  let previous: Date | null = null
+  return getUnlockedStops(rules, session).map(item => {
+    const unlockedAt = latest.get(item.id!) ?? null
+    const sincePrevious = unlockedAt && previous ? unlockedAt.getTime() - previous.getTime() : null
+    previous = unlockedAt
+
+    return { item, unlockedAt, sincePrevious }
+  })
+}
+
+/**
+ * How long the walk took from the first stop to the last one unlocked, or null unless both
+ * have times
+ */
+export function getWalkDuration(timeline: TimelineStop[]): number | null {
+  const first = timeline[0]?.unlockedAt
+  const last = timeline[timeline.length - 1]?.unlockedAt
+
+  return first && last && timeline.length > 1 ? last.getTime() - first.getTime() : null
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * How a placelist's sessions went: for each stop, how many sessions unlocked it and the
+ * typical time from the stop before, and the typical length of a finished walk. Medians are
+ * used so a player who stopped for lunch doesn't skew them.
+ */
+export function summarizeTimings(
+  rules: UnlockRules,
+  sessions: Array<SessionProgress & { id: string }>,
+  events: Array<UnlockTime & { sessionId: string }>
+) {
+  const timelines = sessions.map(session => ({
+    session,
+    timeline: getUnlockTimeline(rules, session, events.filter(event => event.sessionId === session.id)),
+  }))
+
+  const stops = rules.items.map(item => {
+    const visits = timelines.flatMap(({ timeline }) => timeline.filter(stop => stop.item === item))
+
+    return {
+      item,
+      unlocks: visits.length,
+      medianSincePrevious: median(visits.flatMap(({ sincePrevious }) => sincePrevious ?? [])),
+    }
+  })
+
+  const walks = timelines
+    .filter(({ session }) => isSessionComplete(rules, session))
+    .flatMap(({ timeline }) => getWalkDuration(timeline) ?? [])
+
+  return { stops, timedWalks: walks.length, medianWalk: median(walks) }
+}
+
+/**
+ * A length of time in words, e.g. "under a minute", "25 min" or "1 h 5 min"
+ */
+export function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 1) return "under a minute"
+  if (minutes < 60) return `${minutes} min`
+
+  const hours = Math.floor(minutes / 60)
+  return minutes % 60 === 0 ? `${hours} h` : `${hours} h ${minutes % 60} min`
+}
@@ -0,0 +1,197 @@
+import { describe, expect, test } from "bun:test"
+import type { PlacelistItem } from "./placelistParsers"
+import {
+  applyUnlock,
+  checkUnlock,
+  chooseBranch,
+  findRemovedUnlockedStops,
+  getAvailableStops,
+  getBranchChoice,
+  getUnlockedStops,
+  isSessionComplete,
+  precheckUnlock,
+  remapSessionProgress,
+  type SessionProgress,
+  type UnlockRules
+} from "./unlock"
+
+const NOW = new Date("2026-01-05T12:00:00Z")
+
+function stop(id: string, lat: number, extra: Partial<PlacelistItem> = {}): PlacelistItem {
+  return { id, location: { lat, lng: 0 }, spotifyUrl: `https://open.spotify.com/track/${id}`, ...extra }
+}
+
+const a = stop("a", 0)
+const b = stop("b", 0.01)
+const c = stop("c", 0.02)
+
+const fresh: SessionProgress = { progress: 0, unlockedItemIds: [] }
+
+function attemptAt(item: PlacelistItem, offsetLat = 0, age = 0) {
+  return {
+    itemId: item.id!,
+    position: { lat: item.location.lat + offsetLat, lng: item.location.lng },
+    timestamp: NOW.getTime() - age,
+  }
+}
+
+describe("checkUnlock", () => {
+  const rules: UnlockRules = { items: [a, b, c] }
+
+  test("lets the next stop be unlocked from within its radius", () => {
+    expect(checkUnlock(rules, fresh, attemptAt(a), NOW)).toEqual({ ok: true })
+    expect(checkUnlock(rules, applyUnlock(rules, fresh, "a"), attemptAt(b), NOW)).toEqual({ ok: true })
+  })
+
+  test("keeps stops in order", () => {
+    expect(checkUnlock(rules, fresh, attemptAt(b), NOW))
+      .toEqual({ ok: false, error: "Stops have to be unlocked in order" })
+  })
+
+  test("needs a position", () => {
+    const result = checkUnlock(rules, fresh, { itemId: "a", position: null, timestamp: null }, NOW)
+    expect(result).toEqual({ ok: false, error: "Your current location is needed to unlock a stop" })
+  })
+
+  test("turns down positions that are too old or from the future", () => {
+    expect(checkUnlock(rules, fresh, attemptAt(a, 0, 3 * 60 * 1000), NOW).ok).toBe(false)
+    expect(checkUnlock(rules, fresh, attemptAt(a, 0, -60 * 1000), NOW).ok).toBe(false)
+    expect(checkUnlock(rules, fresh, attemptAt(a, 0, -10 * 1000), NOW).ok).toBe(true)
+  })
+
+  test("measures against the stop's own radius, then the placelist's", () => {
+    // About 33 meters north of the stop
+    const offset = 0.0003
+
+    expect(checkUnlock(rules, fresh, attemptAt(a, offset), NOW))
+      .toEqual({ ok: false, error: "You're 33 meters from this stop. Get within 25 meters to unlock it." })
+    expect(checkUnlock({ ...rules, defaultRadius: 50 }, fresh, attemptAt(a, offset), NOW).ok).toBe(true)
+    expect(checkUnlock({ ...rules, items: [{ ...a, radius: 10 }, b, c], defaultRadius: 50 }, fresh, attemptAt(a, offset), NOW).ok)
+      .toBe(false)
+  })
+
+  test("only unlocks area stops from inside the area", () => {
+    const area = [{ lat: -0.001, lng: -0.001 }, { lat: -0.001, lng: 0.001 }, { lat: 0.001, lng: 0.001 }, { lat: 0.001, lng: -0.001 }]
+    const areaRules = { items: [{ ...a, area }] }
+
+    expect(checkUnlock(areaRules, fresh, attemptAt(a, 0.0009), NOW).ok).toBe(true)
+    expect(checkUnlock(areaRules, fresh, attemptAt(a, 0.0012), NOW))
+      .toEqual({ ok: false, error: "You're 22 meters outside this stop's area" })
+  })
+
+  test("keeps closed stops locked, judged at the time of the position", () => {
+    const closed = { items: [{ ...a, onlyDuring: "Mo-Fr 09:00-11:59 UTC" }] }
+
+    expect(checkUnlock(closed, fresh, attemptAt(a), NOW)).toEqual({ ok: false, error: "This stop is closed right now" })
+    expect(checkUnlock(closed, fresh, attemptAt(a, 0, 90 * 1000), NOW)).toEqual({ ok: true })
+  })
+
+  test("keeps to the placelist's active dates", () => {
+    expect(checkUnlock({ ...rules, activeFrom: "2026-02-01" }, fresh, attemptAt(a), NOW))
+      .toEqual({ ok: false, error: "This stop is closed right now" })
+  })
+
+  test("has nothing left once every stop is unlocked", () => {
+    const done = { progress: 3, unlockedItemIds: ["a", "b", "c"] }
+    expect(checkUnlock(rules, done, attemptAt(a), NOW))
+      .toEqual({ ok: false, error: "Every stop has already been unlocked" })
+  })
+})
+
+describe("precheckUnlock", () => {
+  const rules: UnlockRules = { items: [a, b, c] }
+
+  test("turns down stops out of turn or closed without a position", () => {
+    const closed = { items: [{ ...a, onlyDuring: "Mo-Fr 09:00-10:00 UTC" }] }
+
+    expect(precheckUnlock(rules, fresh, { itemId: "b", timestamp: NOW.getTime() }, NOW))
+      .toEqual({ ok: false, error: "Stops have to be unlocked in order" })
+    expect(precheckUnlock(closed, fresh, { itemId: "a", timestamp: NOW.getTime() }, NOW))
+      .toEqual({ ok: false, error: "This stop is closed right now" })
+    expect(precheckUnlock(rules, fresh, { itemId: "a", timestamp: NOW.getTime() - 3 * 60 * 1000 }, NOW).ok).toBe(false)
+  })
+
+  test("leaves the distance to checkUnlock", () => {
+    expect(precheckUnlock(rules, fresh, { itemId: "a", timestamp: NOW.getTime() }, NOW)).toEqual({ ok: true })
+    expect(checkUnlock(rules, fresh, attemptAt(a, 0.001), NOW).ok).toBe(false)
+  })
+})
+
+describe("any order", () => {
+  const rules: UnlockRules = { items: [a, b, c], playOrder: "any" }
+
+  test("offers every stop not yet unlocked", () => {
+    const session = applyUnlock(rules, fresh, "b")
+
+    expect(session).toMatchObject({ progress: 1, unlockedItemIds: ["b"] })
+    expect(getAvailableStops(rules, session)).toEqual([a, c])
+    expect(checkUnlock(rules, session, attemptAt(c), NOW)).toEqual({ ok: true })
+    expect(checkUnlock(rules, session, attemptAt(b), NOW)).toEqual({ ok: false, error: "That stop can't be unlocked" })
+  })
+
+  test("no longer counts stops removed since they were unlocked", () => {
+    expect(getUnlockedStops(rules, { progress: 2, unlockedItemIds: ["c", "gone"] })).toEqual([c])
+  })
+})
+
+describe("branching routes", () => {
+  const fork = stop("fork", 0, { next: [{ stop: "left", label: "Left" }, { stop: "right" }], choicePrompt: "Which way?" })
+  const left = stop("left", 0.01, { next: [] })
+  const right = stop("right", 0.02, { next: [] })
+  const rules: UnlockRules = { items: [fork, left, right] }
+
+  test("asks the player to choose where the route splits", () => {
+    const session = applyUnlock(rules, fresh, "fork")
+    const choice = getBranchChoice(rules, session)
+
+    expect(choice?.prompt).toBe("Which way?")
+    expect(choice?.options.map(({ stop, label }) => [stop.id, label])).toEqual([["left", "Left"], ["right", undefined]])
+    expect(checkUnlock(rules, session, attemptAt(left), NOW)).toEqual({ ok: false, error: "Choose which way to go on first" })
+  })
+
+  test("goes on along the chosen way only", () => {
+    const session = chooseBranch(rules, applyUnlock(rules, fresh, "fork"), "right")!
+
+    expect(getAvailableStops(rules, session)).toEqual([right])
+    expect(checkUnlock(rules, session, attemptAt(left), NOW))
+      .toEqual({ ok: false, error: "That stop isn't next on your route" })
+    expect(checkUnlock(rules, session, attemptAt(right), NOW)).toEqual({ ok: true })
+  })
+
+  test("turns down choices that aren't ways on", () => {
+    expect(chooseBranch(rules, applyUnlock(rules, fresh, "fork"), "fork")).toBeNull()
+    expect(chooseBranch(rules, fresh, "left")).toBeNull()
+  })
+
+  test("is complete at the end of the chosen way", () => {
+    const session = applyUnlock(rules, chooseBranch(rules, applyUnlock(rules, fresh, "fork"), "left")!, "left")
+
+    expect(session.chosenItemId).toBeNull()
+    expect(isSessionComplete(rules, session)).toBe(true)
+    expect(checkUnlock(rules, session, attemptAt(right), NOW))
+      .toEqual({ ok: false, error: "You've already reached the end of the route" })
+  })
+})
+
+describe("getUnlockedStops", () => {
+  test("falls back to the count for sessions without IDs", () => {
+    expect(getUnlockedStops({ items: [a, b, c] }, { progress: 2, unlockedItemIds: [] })).toEqual([a, b])
+  })
+})
+
+describe("editing a placelist", () => {
+  const before = { items: [a, b, c] }
+  const session = { progress: 2, unlockedItemIds: ["a", "b"] }
+
+  test("keeps the stops a session unlocked wherever they moved to", () => {
+    const after = { items: [c, b] }
+
+    expect(remapSessionProgress(before, after, session)).toEqual({ progress: 1, unlockedItemIds: ["b"], chosenItemId: null })
+  })
+
+  test("finds unlocked stops the edit removes", () => {
+    const removed = findRemovedUnlockedStops(before, { items: [c] }, [session, { progress: 1, unlockedItemIds: ["a"] }])
+
+    expect(removed).toEqual([{ item: a, index: 0, sessions: 2 }, { item: b, index: 1, sessions: 1 }])
+  })
+})
@@ -0,0 +1,313 @@
+/**
+ * The rules for unlocking a stop. The player uses them to decide when to unlock, and the
+ * server checks them again so progress can't be posted from anywhere.
+ */
+
+import { getWaysOn, hasBranches, type WayOn } from "./branches"
+import type { PlacelistItem } from "./placelistParsers"
+import type { PlayOrder } from "./placelistSchema"
+import { getScheduleStatus, type Availability } from "./schedule"
+import { getStopTarget, getUnlockRadius, type LatLng } from "./utils"
+
+// How old a reported position may be by the time it reaches the server
+const MAX_POSITION_AGE_MS = 2 * 60 * 1000
+// How far ahead of the server clock a device's clock may run
+const MAX_CLOCK_SKEW_MS = 30 * 1000
+
+/**
+ * The parts of a placelist that decide whether its stops can be unlocked
+ */
+export interface UnlockRules {
+  items: PlacelistItem[]
+  defaultRadius?: number | null
+  activeFrom?: string | null
+  activeUntil?: string | null
+  playOrder?: PlayOrder | string | null
+}
+
+/**
+ * How far a session has got. Stops are tracked by ID, so editing the placelist doesn't
+ * change which ones a player has unlocked; the count is kept alongside for sessions
+ * started before IDs were recorded.
+ */
+export interface SessionProgress {
+  progress: number
+  unlockedItemIds: string[]
+  chosenItemId?: string | null // The way on the player picked where the route branches
+}
+
+/**
+ * A request to unlock a stop, with where the player was and when
+ */
+export interface UnlockAttempt {
+  itemId: string           // The stop the player wants to unlock
+  position: LatLng | null
+  timestamp: number | null // When the position was taken, in ms since the epoch
+}
+
+export type UnlockResult = { ok: true } | { ok: false; error: string }
+
+export function isAnyOrder(rules: Pick<UnlockRules, "playOrder">): boolean {
+  return rules.playOrder === "any"
+}
+
+/**
+ * Whether stops lead on to the ones they name, rather than down the list. Links are ignored
+ * when stops can be played in any order.
+ */
+export function isBranching(rules: Pick<UnlockRules, "items" | "playOrder">): boolean {
+  return !isAnyOrder(rules) && hasBranches(rules.items)
+}
+
+/**
+ * The stops a session has unlocked, in the order they were unlocked
+ */
+export function getUnlockedStops(rules: Pick<UnlockRules, "items" | "playOrder">, session: SessionProgress): PlacelistItem[] {
+  // Sessions played in order before IDs were recorded only have the count to go on
+  const unlockedItemIds = session.unlockedItemIds.length === 0
+    ? rules.items.slice(0, session.progress).map(item => item.id!)
+    : session.unlockedItemIds
+
+  // Stops removed from the placelist since they were unlocked no longer count
+  return unlockedItemIds
+    .map(id => rules.items.find(item => item.id === id))
+    .filter((item): item is PlacelistItem => Boolean(item))
+}
+
+export function countUnlockedStops(rules: Pick<UnlockRules, "items" | "playOrder">, session: SessionProgress): number {
+  return getUnlockedStops(rules, session).length
+}
+
+export function isStopUnlocked(rules: UnlockRules, session: SessionProgress, itemId: string): boolean {
+  return getUnlockedStops(rules, session).some(item => item.id === itemId)
+}
+
+// The ways on from the last stop unlocked on a branching route, leaving out stops already
+// unlocked so a route can't go round in circles
+function getOpenWaysOn(rules: UnlockRules, session: SessionProgress): WayOn[] {
+  const unlocked = getUnlockedStops(rules, session)
+  const last = unlocked[unlocked.length - 1]
+
+  if (!last) {
+    return rules.items.slice(0, 1).map(stop => ({ stop }))
+  }
+
+  return getWaysOn(rules.items, last).filter(({ stop }) => !unlocked.includes(stop))
+}
+
+/**
+ * The choice a player has to make before going on along a branching route: the ways on from
+ * the last stop unlocked, when there is more than one and none has been picked yet
+ */
+export function getBranchChoice(rules: UnlockRules, session: SessionProgress): { prompt?: string; options: WayOn[] } | null {
+  if (!isBranching(rules)) return null
+
+  const options = getOpenWaysOn(rules, session)
+  if (options.length < 2 || options.some(({ stop }) => stop.id === session.chosenItemId)) {
+    return null
+  }
+
+  const unlocked = getUnlockedStops(rules, session)
+  return { prompt: unlocked[unlocked.length - 1]?.choicePrompt, options }
+}
+
+/**
+ * A session's progress once the player has picked a way on, or null if it isn't one of the
+ * ways they can pick
+ */
+export function chooseBranch(rules: UnlockRules, session: SessionProgress, itemId: string): SessionProgress | null {
+  const choice = getBranchChoice(rules, session)
+  if (!choice || !choice.options.some(({ stop }) => stop.id === itemId)) {
+    return null
+  }
+
+  return { ...session, chosenItemId: itemId }
+}
+
+/**
+ * The stops still to find: just the next one when playing in order, the one the route leads
+ * on to (or the player picked) on a branching route, otherwise every stop not yet unlocked
+ */
+export function getAvailableStops(rules: UnlockRules, session: SessionProgress): PlacelistItem[] {
+  if (isBranching(rules)) {
+    const options = getOpenWaysOn(rules, session).map(({ stop }) => stop)
+    return options.length === 1 ? options : options.filter(stop => stop.id === session.chosenItemId)
+  }
+
+  const unlocked = getUnlockedStops(rules, session)
+  const remaining = rules.items.filter(item => !unlocked.includes(item))
+  return isAnyOrder(rules) ? remaining : remaining.slice(0, 1)
+}
+
+/**
+ * Whether a session has nothing left to find: every stop is unlocked, or on a branching
+ * route, the route has come to an end
+ */
+export function isSessionComplete(rules: UnlockRules, session: SessionProgress): boolean {
+  return getAvailableStops(rules, session).length === 0 && !getBranchChoice(rules, session)
+}
+
+/**
+ * A session's progress once a stop has been unlocked
+ */
+export function applyUnlock(rules: UnlockRules, session: SessionProgress, itemId: string): SessionProgress {
+  const unlockedItemIds = [...getUnlockedStops(rules, session).map(item => item.id!), itemId]
+
+  return {
+    progress: countUnlockedStops(rules, { ...session, unlockedItemIds }),
+    unlockedItemIds,
+    chosenItemId: null,
+  }
+}
+
+/**
+ * A session's progress once the placelist has been edited: the stops it unlocked that are
+ * still there, found by ID wherever they have moved to
+ */
+export function remapSessionProgress(
+  before: Pick<UnlockRules, "items" | "playOrder">,
+  after: Pick<UnlockRules, "items">,
+  session: SessionProgress
+): SessionProgress {
+  const remaining = new Set(after.items.map(item => item.id))
+  const unlockedItemIds = getUnlockedStops(before, session)
+    .map(item => item.id!)
+    .filter(id => remaining.has(id))
+
+  return {
+    progress: unlockedItemIds.length,
+    unlockedItemIds,
+    chosenItemId: session.chosenItemId && remaining.has(session.chosenItemId) ? session.chosenItemId : null,
+  }
+}
+
+/**
+ * Stops that an edit removes although players have already unlocked them, with how many
+ * sessions each was unlocked in
+ */
+export function findRemovedUnlockedStops(
+  before: Pick<UnlockRules, "items" | "playOrder">,
+  after: Pick<UnlockRules, "items">,
+  sessions: SessionProgress[]
+): Array<{ item: PlacelistItem; index: number; sessions: number }> {
+  const remaining = new Set(after.items.map(item => item.id))
+
+  return before.items.flatMap((item, index) => {
+    if (remaining.has(item.id)) return []
+
+    const unlockedIn = sessions.filter(session => getUnlockedStops(before, session).includes(item)).length
+    return unlockedIn > 0 ? [{ item, index, sessions: unlockedIn }] : []
+  })
+}
+
+/**
+ * A placelist's active dates as availability limits, or null if it has none
+ */
+export function getActiveWindow(rules: UnlockRules): Availability | null {
+  return rules.activeFrom || rules.activeUntil
+    ? { from: rules.activeFrom ?? undefined, until: rules.activeUntil ?? undefined }
+    : null
+}
+
+/**
+ * Whether a stop can only be unlocked at certain times
+ */
+export function hasScheduleLimits(item: PlacelistItem, rules: UnlockRules): boolean {
+  return Boolean(item.onlyDuring || item.availability || getActiveWindow(rules))
+}
+
+/**
+ * Whether a stop is open at a moment, taking in its opening hours, its available dates
+ * and the placelist's active dates
+ */
+export function getStopScheduleStatus(date: Date, item: PlacelistItem, rules: UnlockRules) {
+  const availability = [getActiveWindow(rules), item.availability]
+    .filter((limit): limit is Availability => Boolean(limit))
+
+  return getScheduleStatus(date, item.onlyDuring, { location: item.location, availability })
+}
+
+/**
+ * The checks on an attempt to unlock a stop that don't need the player's position: it has to be
+ * one of the stops available next, the position recent and the stop open when it was taken.
+ * Cheap enough to run before the position is recorded and compared with earlier ones.
+ */
+export function precheckUnlock(
+  rules: UnlockRules,
+  session: SessionProgress,
+  attempt: Pick<UnlockAttempt, "itemId" | "timestamp">,
+  now: Date = new Date()
+): UnlockResult {
+  if (getBranchChoice(rules, session)) {
+    return { ok: false, error: "Choose which way to go on first" }
+  }
+
+  if (isSessionComplete(rules, session)) {
+    return {
+      ok: false,
+      error: isBranching(rules) ? "You've already reached the end of the route" : "Every stop has already been unlocked"
+    }
+  }
+
+  const item = getAvailableStops(rules, session).find(stop => stop.id === attempt.itemId)
+  if (!item) {
+    return {
+      ok: false,
+      error: isAnyOrder(rules)
+        ? "That stop can't be unlocked"
+        : isBranching(rules) ? "That stop isn't next on your route" : "Stops have to be unlocked in order"
+    }
+  }
+
+  const { timestamp } = attempt
+  if (timestamp === null || !Number.isFinite(timestamp)) {
+    return { ok: false, error: "Your current location is needed to unlock a stop" }
+  }
+
+  const age = now.getTime() - timestamp
+  if (age > MAX_POSITION_AGE_MS || age < -MAX_CLOCK_SKEW_MS) {
+    return { ok: false, error: "Your location is out of date. Wait for a fresh fix and try again." }
+  }
+
+  if (hasScheduleLimits(item, rules) && !getStopScheduleStatus(new Date(timestamp), item, rules).open) {
+    return { ok: false, error: "This stop is closed right now" }
+  }
+
+  return { ok: true }
+}
+
+/**
+ * Checks an attempt to unlock a stop: it has to pass precheckUnlock, and the position has to be
+ * within the stop's unlock radius or area
+ */
+export function checkUnlock(
+  rules: UnlockRules,
+  session: SessionProgress,
+  attempt: UnlockAttempt,
+  now: Date = new Date()
+): UnlockResult {
+  const precheck = precheckUnlock(rules, session, attempt, now)
+  if (!precheck.ok) {
+    return precheck
+  }
+
+  const { position } = attempt
+  if (!position || !Number.isFinite(position.lat) || !Number.isFinite(position.lng)) {
+    return { ok: false, error: "Your current location is needed to unlock a stop" }
+  }
+
+  const item = rules.items.find(stop => stop.id === attempt.itemId)!
+  const { distance } = getStopTarget(position, item)
+  const unlockRadius = getUnlockRadius(item, rules.defaultRadius)
+
+  if (distance > unlockRadius) {
+    return {
+      ok: false,
+      error: item.area
+        ? `You're ${Math.round(distance)} meters outside this stop's area`
+        : `You're ${Math.round(distance)} meters from this stop. Get within ${unlockRadius} meters to unlock it.`
+    }
+  }
+
+  return { ok: true }
+}
@@ -26,6 +26,117 @@ export function calculateDistance(
   return R * c
 }
 
+export type LatLng = { lat: number; lng: number }
+
+// Whether a point lies inside a polygon, by ray casting. Treating degrees as flat is fine
+// at the scale of a plaza or a beach.
+export function isPointInPolygon(point: LatLng, polygon: LatLng[]): boolean {
+  let inside = false
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+
+    if ((a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside
+    }
+  }
+
+  return inside
+}
+
+// Nearest point on a polygon's edge, working in meters on a flat plane centered on the point
+export function getNearestPointOnPolygon(point: LatLng, polygon: LatLng[]): LatLng {
+  const metersPerDegreeLat = 111320
+  const metersPerDegreeLng = 111320 * Math.cos((point.lat * Math.PI) / 180)
+  const toPlane = (p: LatLng) => ({
+    x: (p.lng - point.lng) * metersPerDegreeLng,
+    y: (p.lat - point.lat) * metersPerDegreeLat
+  })
+
+  let nearest = polygon[0]
+  let nearestSquared = Infinity
+
+  for (let i = 0; i < polygon.length; i++) {
+    const a = toPlane(polygon[i])
+    const b = toPlane(polygon[(i + 1) % polygon.length])
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const lengthSquared = dx * dx + dy * dy
+
+    // How far along the edge the closest point is, clamped to the edge itself
+    const t = lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared))
+    const x = a.x + t * dx
+    const y = a.y + t * dy
+
+    if (x * x + y * y < nearestSquared) {
+      nearestSquared = x * x + y * y
+      nearest = {
+        lat: point.lat + y / metersPerDegreeLat,
+        lng: point.lng + x / metersPerDegreeLng
+      }
+    }
+  }
+
+  return nearest
+}
+
+// Middle of a polygon (the average of its corners), used as the marker for an area stop
+export function getPolygonCenter(polygon: LatLng[]): LatLng {
+  return {
+    lat: polygon.reduce((sum, p) => sum + p.lat, 0) / polygon.length,
+    lng: polygon.reduce((sum, p) => sum + p.lng, 0) / polygon.length
+  }
+}
+
+// How far a point is inside a polygon, measured to the nearest edge; negative when it is outside
+export function getDepthInPolygon(point: LatLng, polygon: LatLng[]): number {
+  const edge = getNearestPointOnPolygon(point, polygon)
+  const distance = calculateDistance(point.lat, point.lng, edge.lat, edge.lng)
+
+  return isPointInPolygon(point, polygon) ? distance : -distance
+}
+
+// Where the compass should point for a stop and how far away it is. Area stops are zero
+// meters away once the player is inside, otherwise the compass points at the nearest edge.
+export function getStopTarget(
+  position: LatLng,
+  item: { location: LatLng; area?: LatLng[] }
+): { target: LatLng; distance: number } {
+  let target = item.location
+
+  if (item.area && item.area.length >= 3) {
+    if (isPointInPolygon(position, item.area)) {
+      return { target: position, distance: 0 }
+    }
+    target = getNearestPointOnPolygon(position, item.area)
+  }
+
+  return {
+    target,
+    distance: calculateDistance(position.lat, position.lng, target.lat, target.lng)
+  }
+}
+
+// How close (in meters) a player has to get to unlock a stop when the author hasn't said
+export const DEFAULT_UNLOCK_RADIUS = 25
+
+// The unlock radius for a stop: its own, then the placelist default, then the app default.
+// Area stops only unlock inside the area, where getStopTarget reports a distance of zero.
+export function getUnlockRadius(
+  item: { radius?: number; area?: LatLng[] },
+  placelistDefault?: number | null
+): number {
+  if (item.area && item.area.length >= 3) {
+    return 0
+  }
+
+  return item.radius ?? placelistDefault ?? DEFAULT_UNLOCK_RADIUS
+}
+
 // Calculate bearing between two coordinates
 export function calculateBearing(
   lat1: number,
@@ -100,202 +211,31 @@ export function extractSpotifyTrackId(spotifyUrl: string): string | null {
 }
 
 /**
- * Generates a Google Static Maps URL for a given location
+ * Generates a Google Static Maps URL for a given location, outlining the unlock area if there is one
  */
-export function getGoogleStaticMapUrl(lat: number, lng: number, zoom: number = 14, width: number = 600, height: number = 300): string {
+export function getGoogleStaticMapUrl(lat: number, lng: number, zoom: number = 14, width: number = 600, height: number = 300, area?: LatLng[]): string {
   const apiKey = process.env.GOOGLE_MAPS_API_KEY
 
   if (apiKey) {
     // If API key is available, use the Google Maps API
     // Added scale=2 for higher resolution images
-    return `https://maps.googleapis.com/maps/api/staticmap?center=${lat},${lng}&zoom=${zoom}&size=${width}x${height}&scale=2&markers=color:red%7C${lat},${lng}&key=${apiKey}`
+    const path = area && area.length >= 3
+      ? `&path=color:0x22c55eff%7Cweight:2%7Cfillcolor:0x22c55e33%7C${[...area, area[0]].map(p => `${p.lat},${p.lng}`).join('%7C')}`
+      : ''
+    return `https://maps.googleapis.com/maps/api/staticmap?center=${lat},${lng}&zoom=${zoom}&size=${width}x${height}&scale=2&markers=color:red%7C${lat},${lng}${path}&key=${apiKey}`
   } else {
     // Fallback to placeholder if no API key is provided
     return `https://placehold.co/${width}x${height}?text=Map+Location:+${lat.toFixed(4)},${lng.toFixed(4)}`
   }
 }
 
-
-type DayAbbreviation = "mo" | "tu" | "we" | "th" | "fr" | "sa" | "su"
-
-interface TimeRange {
-  start: number // Minutes since midnight
-  end: number   // Minutes since midnight (next day allowed)
-  days: Set<DayAbbreviation>
-}
-
-interface ScheduleParseResult {
-  timeRanges: TimeRange[]
-  timeZone: string // Named time zone
-}
-
-/**
- * Expands day ranges (e.g., "MO-WE" → ["MO", "TU", "WE"])
- */
-function expandDayRange(dayRange: string): DayAbbreviation[] {
-  const dayOrder: DayAbbreviation[] = ["mo", "tu", "we", "th", "fr", "sa", "su"]
-  const expandedDays: DayAbbreviation[] = []
-
-  dayRange.split(", ").forEach(part => {
-    // Convert to lowercase for case-insensitive comparison
-    const normalizedPart = part.toLowerCase();
-    
-    const rangeMatch = normalizedPart.match(/^([a-z]{2})-([a-z]{2})$/i)
-    if (rangeMatch) {
-      const [, startDay, endDay] = rangeMatch
-      const startIndex = dayOrder.indexOf(startDay.toLowerCase() as DayAbbreviation)
-      const endIndex = dayOrder.indexOf(endDay.toLowerCase() as DayAbbreviation)
-      if (startIndex !== -1 && endIndex !== -1 && startIndex <= endIndex) {
-        expandedDays.push(...dayOrder.slice(startIndex, endIndex + 1))
-      }
-    } else if (dayOrder.includes(normalizedPart as DayAbbreviation)) {
-      expandedDays.push(normalizedPart as DayAbbreviation)
-    }
-  })
-
-  return expandedDays
-}
-
 /**
- * Converts AM/PM or hour-only time to minutes since midnight.
+ * Builds a download filename from a placelist name, e.g. "Sunday Walk" → "sunday-walk.gpx"
  */
-function parseTime(time: string): number {
-  const match = time.match(/^(\d{1,2})(?::(\d{2}))?\s*([ap]m?)?$/i)
-  if (!match) throw new Error(`Invalid time format: ${time}`)
-
-  let [_, hourStr, minuteStr, period] = match
-  let hour = parseInt(hourStr, 10)
-  let minutes = minuteStr ? parseInt(minuteStr, 10) : 0
-
-  if (period) {
-    period = period.toUpperCase()
-    if (period.startsWith("p") && hour !== 12) hour += 12
-    if (period.startsWith("a") && hour === 12) hour = 0
-  }
-
-  return hour * 60 + minutes
-}
-
-/**
- * Parses a schedule string and extracts a named time zone if present.
- */
-function parseSchedule(schedule: string): ScheduleParseResult {
-  try {
-    console.log("Parsing schedule:", schedule);
-    
-    // Extract time zone if present
-    const tzMatch = schedule.match(/\s([A-Z]{2,5})$/i)
-    const timeZone = tzMatch ? tzMatch[1] : Intl.DateTimeFormat().resolvedOptions().timeZone // Default to local time zone
-    console.log("Timezone identified:", timeZone);
-
-    // Remove timezone for parsing
-    const scheduleWithoutTZ = schedule.replace(/\s[A-Z]{2,5}$/, "")
-    console.log("Schedule without timezone:", scheduleWithoutTZ);
-
-    const timeRanges = scheduleWithoutTZ.split("; ").flatMap(entry => {
-      console.log("Processing entry:", entry);
-      
-      // Extract time ranges and days
-      const match = entry.match(/([\d:apm,-\s]+) \(([^)]+)\)/i)
-      if (!match) {
-        console.error(`Invalid format - couldn't match pattern in: ${entry}`);
-        throw new Error(`Invalid format: ${entry}`);
-      }
-
-      const [_, timePart, daysPart] = match
-      console.log("Time part:", timePart, "Days part:", daysPart);
-      
-      // Get day set
-      const days = new Set(expandDayRange(daysPart))
-      console.log("Expanded days:", [...days]);
-
-      return timePart.split(", ").map(timeRange => {
-        console.log("Processing time range:", timeRange);
-        
-        // Split into start and end times
-        const times = timeRange.split("-");
-        if (times.length !== 2) {
-          console.error(`Invalid time range format - expected two times separated by '-': ${timeRange}`);
-          throw new Error(`Invalid time range format: ${timeRange}`);
-        }
-        
-        try {
-          const start = parseTime(times[0].trim());
-          const end = parseTime(times[1].trim());
-          console.log(`Parsed times: ${start}mins to ${end}mins`);
-          
-          return {
-            start,
-            end: end < start ? end + 1440 : end, // Handle overnight shifts
-            days,
-          };
-        } catch (err) {
-          console.error(`Error parsing time range: ${timeRange}`, err);
-          throw err;
-        }
-      });
-    });
-
-    console.log("Parsed time ranges:", timeRanges);
-    return { timeRanges, timeZone };
-  } catch (err) {
-    console.error("Failed to parse schedule:", err);
-    // Return an empty time range with local timezone in case of error
-    return { 
-      timeRanges: [],
-      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
-    };
-  }
-}
-
-/**
- * Converts a Date object to a specific time zone and returns the time in minutes since midnight.
- */
-function getMinutesSinceMidnightInTimeZone(date: Date, timeZone: string): number {
-  const options = { timeZone, hour12: false, hour: "2-digit", minute: "2-digit" } as const
-  const formatted = new Intl.DateTimeFormat("en-US", options).format(date)
-  const [hour, minute] = formatted.split(":").map(Number)
-  return hour * 60 + minute
-}
-
-/**
- * Determines if the current time is within any scheduled ranges and provides extra info.
- */
-export function getScheduleStatus(date: Date, schedule: string) {
-  const { timeRanges, timeZone } = parseSchedule(schedule)
-
-  // Convert the current time to the specified time zone
-  const targetMinutesSinceMidnight = getMinutesSinceMidnightInTimeZone(date, timeZone)
-  // Use lowercase day abbreviations to match our set (DayAbbreviation)
-  const dayAbbr: DayAbbreviation = ["su", "mo", "tu", "we", "th", "fr", "sa"][date.getDay()] as DayAbbreviation
-  // For previous day (to handle overnight shifts)
-  const prevDayIndex = date.getDay() === 0 ? 6 : date.getDay() - 1;
-  const prevDayAbbr: DayAbbreviation = ["su", "mo", "tu", "we", "th", "fr", "sa"][prevDayIndex] as DayAbbreviation
-
-  let nextOpening: number | null = null
-
-  for (const { start, end, days } of timeRanges) {
-    if (days.has(dayAbbr) && targetMinutesSinceMidnight >= start && targetMinutesSinceMidnight < end) {
-      return { open: true, earlyBy: null, nextOpenIn: null, timeZone }
-    }
-
-    // Handle overnight shifts: If time is past midnight but was still part of a previous day's range
-    if (days.has(prevDayAbbr) && targetMinutesSinceMidnight < end - 1440) {
-      return { open: true, earlyBy: null, nextOpenIn: null, timeZone }
-    }
-
-    if (days.has(dayAbbr) && targetMinutesSinceMidnight < start) {
-      nextOpening = nextOpening === null ? start : Math.min(nextOpening, start)
-    }
-  }
-
-  if (nextOpening !== null) {
-    return {
-      open: false,
-      nextOpenIn: nextOpening - targetMinutesSinceMidnight,
-      timeZone,
-    }
-  }
-
-  return { open: false, nextOpenIn: null, timeZone }
+export function getExportFilename(name: string, extension: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return `${slug || 'placelist'}.${extension}`
 }
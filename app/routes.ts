@@ -9,7 +9,12 @@ export default [
   route("placelists", "./routes/placelists/index.tsx"),
   route("placelists/new", "./routes/placelists/new.tsx"),
   route("placelists/:id", "./routes/placelists/$id.tsx"),
+  route("placelists/:id.gpx", "./routes/placelists/$id.gpx.ts"),
+  route("placelists/:id.geojson", "./routes/placelists/$id.geojson.ts"),
   route("placelists/:id/edit", "./routes/placelists/$id.edit.tsx"),
+  route("placelists/:id/flagged", "./routes/placelists/$id.flagged.tsx"),
+  route("placelists/:id/simulate", "./routes/placelists/$id.simulate.tsx"),
+  route("schemas/placelist.schema.json", "./routes/schemas/placelist.ts"),
   route("play/:sessionId", "./routes/play/$sessionId.tsx"),
   route("auth/login", "./routes/auth/login.tsx"),
   route("auth/signup", "./routes/auth/signup.tsx"),
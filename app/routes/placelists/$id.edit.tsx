@@ -1,8 +1,11 @@
 import { redirect, useActionData, useLoaderData, useNavigation } from "react-router";
 import type { Route } from "./+types/$id.edit";
 import { getPlacelist, updatePlacelist } from "../../lib/db";
-import { parsePlacelistText, formatAsYaml } from "../../lib/placelistParsers";
+import { parsePlacelistText, parsePlacemarkFile, hasParseErrors, formatAsYaml, writeYamlItemIds, findFieldsLostInTraditional } from "../../lib/placelistParsers";
 import PlacelistEditor from "../../components/PlacelistEditor";
+import { parseSpoofingStrictness } from "../../lib/spoofing";
+import { PLAY_ORDERS, findReusedItemIds } from "../../lib/placelistSchema";
+import { countUnlockedStops, findRemovedUnlockedStops } from "../../lib/unlock";
 import { requireUser } from "../../lib/session";
 
 export async function loader({ request, params }: Route.LoaderArgs) {
@@ -20,9 +23,10 @@ export async function loader({ request, params }: Route.LoaderArgs) {
     throw new Response("Unauthorized: You can only edit your own placelists", { status: 403 });
   }
   
-  // Convert the items array to YAML format
-  const items = placelist.items as Array<{ location: { lat: number; lng: number }; spotifyUrl: string }>;
-  const placelistText = formatAsYaml(items);
+  // Reopen the YAML exactly as it was saved, comments and all, or convert the items to YAML.
+  // Every stop's ID is written out so it stays with the stop however the stops are rearranged.
+  const items = placelist.items;
+  const placelistText = (placelist.source && writeYamlItemIds(placelist.source, items)) ?? formatAsYaml(items);
   
   return { placelist, placelistText, user };
 }
@@ -43,8 +47,39 @@ export async function action({ params, request }: Route.ActionArgs) {
   }
   
   const formData = await request.formData();
+
+  // Uploaded map files are only parsed for review here; nothing is saved until the editor is submitted
+  if (formData.get("intent") === "import-file") {
+    const file = formData.get("importFile");
+
+    if (!(file instanceof File) || file.size === 0) {
+      return { importError: "Choose a KML or KMZ file to import", status: 400 };
+    }
+
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const importedPlacemarks = parsePlacemarkFile(file.name, bytes);
+
+      if (importedPlacemarks.length === 0) {
+        return { importError: "No point placemarks found in the uploaded file", status: 400 };
+      }
+
+      return { importedPlacemarks };
+    } catch (error) {
+      return {
+        importError: error instanceof Error ? error.message : "Failed to import file",
+        status: 400
+      };
+    }
+  }
+
   const name = formData.get("name") as string;
   const description = formData.get("description") as string;
+  const defaultRadius = formData.get("defaultRadius") as string;
+  const activeFrom = formData.get("activeFrom") as string;
+  const activeUntil = formData.get("activeUntil") as string;
+  const spoofingStrictness = parseSpoofingStrictness(formData.get("spoofingStrictness"));
+  const playOrder = PLAY_ORDERS.find(order => order === formData.get("playOrder"));
   const placelistText = formData.get("placelistText") as string;
 
   const errors: Record<string, string> = {};
@@ -53,36 +88,102 @@ export async function action({ params, request }: Route.ActionArgs) {
     errors.name = "Name is required";
   }
 
+  if (defaultRadius && !(Number(defaultRadius) > 0)) {
+    errors.defaultRadius = "Unlock radius must be a positive number of meters";
+  }
+
+  if (activeFrom && activeUntil && activeFrom > activeUntil) {
+    errors.activeUntil = "The end date is before the start date";
+  }
+
   if (!placelistText || placelistText.trim() === "") {
     errors.placelistText = "Placelist content is required";
   }
 
   if (Object.keys(errors).length > 0) {
-    return { errors, values: { name, description, placelistText }, status: 400 };
+    return { errors, values: { name, description, defaultRadius, activeFrom, activeUntil, spoofingStrictness, playOrder, placelistText }, status: 400 };
   }
 
   try {
-    const items = parsePlacelistText(placelistText);
+    const { format, items, diagnostics, ...header } = parsePlacelistText(placelistText);
+
+    if (hasParseErrors(diagnostics)) {
+      return {
+        errors: { placelistText: "Fix the problems listed below before saving" },
+        diagnostics,
+        values: { name, description, defaultRadius, activeFrom, activeUntil, spoofingStrictness, playOrder, placelistText },
+        status: 400
+      };
+    }
     
     if (items.length === 0) {
       return { 
         errors: { placelistText: "No valid items found in placelist text" },
-        values: { name, description, placelistText },
+        values: { name, description, defaultRadius, activeFrom, activeUntil, spoofingStrictness, playOrder, placelistText },
+        status: 400
+      };
+    }
+
+    // Legacy lines only hold locations and tracks, so saving in them would drop every other
+    // field and, with no IDs written, make every stop a new one to players part way through
+    const lostFields = format === 'traditional' ? findFieldsLostInTraditional(placelist.items) : [];
+    const hasProgress = placelist.sessions.some(session => countUnlockedStops(placelist, session) > 0);
+    if (format === 'traditional' && (hasProgress || lostFields.length > 0)) {
+      return {
+        errors: {
+          placelistText: lostFields.length > 0
+            ? `Legacy lines only hold each stop's location and track, so saving in them would lose ${lostFields.join(", ")}. Switch the format to YAML, GeoJSON or GPX to save.`
+            : "Legacy lines can't keep track of which stop is which for players part way through. Switch the format to YAML, GeoJSON or GPX to save."
+        },
+        values: { name, description, defaultRadius, activeFrom, activeUntil, spoofingStrictness, playOrder, placelistText },
         status: 400
       };
     }
 
+    // Sessions that unlocked a removed stop would count a new stop with its ID as unlocked too
+    const [reusedItem] = findReusedItemIds(items, placelist.retiredItemIds);
+    if (reusedItem) {
+      return {
+        errors: {
+          placelistText: `The ID "${reusedItem.id}" belonged to a stop that was removed, so it can't be used again. Give the stop another ID, or leave it out to have one made up.`
+        },
+        values: { name, description, defaultRadius, activeFrom, activeUntil, spoofingStrictness, playOrder, placelistText },
+        status: 400
+      };
+    }
+
+    // Players who unlocked a stop lose it when it is removed, so make sure that is intended
+    const removedStops = findRemovedUnlockedStops(placelist, { items }, placelist.sessions);
+    if (removedStops.length > 0 && formData.get("confirmRemovals") !== "yes") {
+      return {
+        removedStops: removedStops.map(({ item, index, sessions }) => ({
+          title: item.title || `Location ${index + 1}`,
+          sessions
+        })),
+        values: { name, description, defaultRadius, activeFrom, activeUntil, spoofingStrictness, playOrder, placelistText },
+        status: 409
+      };
+    }
+
     await updatePlacelist(placelist.id, {
       name,
       description: description || undefined,
+      // Settings typed into the form win over those in the YAML header
+      defaultRadius: defaultRadius ? Number(defaultRadius) : header.defaultRadius ?? null,
+      activeFrom: activeFrom || header.activeFrom || null,
+      activeUntil: activeUntil || header.activeUntil || null,
+      spoofingStrictness,
+      playOrder: playOrder ?? header.playOrder,
       items,
+      // Other formats are converted on the way in, so there is nothing worth keeping
+      source: format === 'yaml' ? writeYamlItemIds(placelistText, items) ?? placelistText : null,
     });
 
     return redirect(`/placelists/${placelist.id}`);
   } catch (error) {
     return { 
       errors: { placelistText: error instanceof Error ? error.message : "Failed to parse placelist" },
-      values: { name, description, placelistText },
+      values: { name, description, defaultRadius, activeFrom, activeUntil, spoofingStrictness, playOrder, placelistText },
       status: 400 
     };
   }
@@ -110,9 +211,16 @@ export default function EditPlacelist() {
       defaultValues={{
         name: actionData?.values?.name ?? placelist.name,
         description: actionData?.values?.description ?? placelist.description ?? "",
+        defaultRadius: actionData?.values?.defaultRadius ?? placelist.defaultRadius?.toString() ?? "",
+        activeFrom: actionData?.values?.activeFrom ?? placelist.activeFrom ?? "",
+        activeUntil: actionData?.values?.activeUntil ?? placelist.activeUntil ?? "",
+        spoofingStrictness: actionData?.values?.spoofingStrictness ?? parseSpoofingStrictness(placelist.spoofingStrictness),
+        playOrder: actionData?.values?.playOrder ?? placelist.playOrder,
         placelistText: actionData?.values?.placelistText ?? placelistText
       }}
       errors={actionData?.errors}
+      diagnostics={actionData?.diagnostics}
+      removedStops={actionData?.removedStops}
       isSubmitting={isSubmitting}
       isEditing={true}
       cancelHref={`/placelists/${placelist.id}`}
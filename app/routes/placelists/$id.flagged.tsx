@@ -0,0 +1,137 @@
+import { Form, Link, useLoaderData } from "react-router";
+import type { Route } from "./+types/$id.flagged";
+import { clearSessionFlag, getFlaggedSessions, getPlacelist } from "../../lib/db";
+import { SPOOFING_STRICTNESS_LEVELS, parseSpoofingStrictness } from "../../lib/spoofing";
+import { requireUser } from "../../lib/session";
+import { countUnlockedStops } from "../../lib/unlock";
+
+// Only the author gets to see where players have been
+async function requireOwnPlacelist(request: Request, id: string) {
+  const user = await requireUser(request);
+  const placelist = await getPlacelist(id);
+
+  if (!placelist) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  if (placelist.authorId !== user.id) {
+    throw new Response("Unauthorized: You can only review sessions of your own placelists", { status: 403 });
+  }
+
+  return placelist;
+}
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const placelist = await requireOwnPlacelist(request, params.id as string);
+  const sessions = await getFlaggedSessions(placelist.id);
+
+  return { placelist, sessions };
+}
+
+export async function action({ params, request }: Route.ActionArgs) {
+  const placelist = await requireOwnPlacelist(request, params.id as string);
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "clear-flag") {
+    const sessionId = formData.get("sessionId") as string;
+
+    // Make sure the session is one of this placelist's
+    if (!placelist.sessions.some(session => session.id === sessionId)) {
+      throw new Response("Not Found", { status: 404 });
+    }
+
+    await clearSessionFlag(sessionId);
+  }
+
+  return null;
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  if (!data?.placelist) {
+    return [{ title: "Placelist Not Found - SpotiSpot" }];
+  }
+
+  return [
+    { title: `Flagged Sessions - ${data.placelist.name} - SpotiSpot` },
+  ];
+}
+
+export default function FlaggedSessions() {
+  const { placelist, sessions } = useLoaderData<typeof loader>();
+  const totalItems = placelist.items.length;
+  const strictness = parseSpoofingStrictness(placelist.spoofingStrictness);
+  const strictnessLabel = SPOOFING_STRICTNESS_LEVELS.find(level => level.value === strictness)?.label;
+
+  return (
+    <div className="container mx-auto px-4 py-12 max-w-4xl">
+      <div className="mb-8">
+        <Link to={`/placelists/${placelist.id}`} className="text-green-500 hover:underline mb-4 inline-block">
+          ← Back to {placelist.name}
+        </Link>
+        <h1 className="text-3xl font-bold">Flagged Sessions</h1>
+        <p className="text-gray-700 mt-2">
+          These players sent locations that look faked. Each one could still have an innocent
+          explanation, like a phone switching from Wi-Fi to GPS positioning, so check the details
+          before drawing conclusions.
+        </p>
+        <p className="text-gray-500 text-sm mt-2">
+          Faked locations: {strictnessLabel}.{" "}
+          <Link to={`/placelists/${placelist.id}/edit`} className="text-green-500 hover:underline">
+            Change
+          </Link>
+        </p>
+      </div>
+
+      {sessions.length === 0 ? (
+        <div className="bg-gray-50 p-6 rounded-lg text-gray-600">
+          No sessions have been flagged.
+        </div>
+      ) : (
+        <ul className="space-y-6">
+          {sessions.map(session => (
+            <li key={session.id} className="bg-white rounded-lg border border-yellow-300 p-4">
+              <div className="flex flex-wrap justify-between items-start gap-4 mb-3">
+                <div>
+                  <div className="font-medium">{session.user?.name ?? "Anonymous player"}</div>
+                  <div className="text-gray-500 text-sm">
+                    {countUnlockedStops(placelist, session)} of {totalItems} stops unlocked ·
+                    flagged {session.flaggedAt?.toLocaleString()}
+                  </div>
+                </div>
+                <Form method="post">
+                  <input type="hidden" name="intent" value="clear-flag" />
+                  <input type="hidden" name="sessionId" value={session.id} />
+                  <button
+                    type="submit"
+                    className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-1 px-3 rounded-lg text-sm"
+                  >
+                    Clear Flag
+                  </button>
+                </Form>
+              </div>
+
+              <ul className="space-y-2">
+                {session.locationReports.map(report => (
+                  <li key={report.id} className="bg-yellow-50 rounded p-3 text-sm">
+                    <div className="text-gray-500">
+                      {new Date(report.takenAt).toLocaleString()} ·{" "}
+                      <span className="font-mono">{report.lat.toFixed(6)}, {report.lng.toFixed(6)}</span>
+                      {report.accuracy !== null && <> · ±{Math.round(report.accuracy)} m</>}
+                    </div>
+                    <ul className="list-disc list-inside mt-1">
+                      {report.signs.map((sign: string) => (
+                        <li key={sign}>{sign}</li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import type { Route } from "./+types/$id.gpx";
+import { getPlacelist } from "../../lib/db";
+import { formatAsGpx } from "../../lib/placelistParsers";
+import { getExportFilename } from "../../lib/utils";
+import { requireUser } from "../../lib/session";
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  // Get the logged-in user
+  const user = await requireUser(request);
+  
+  const placelist = await getPlacelist(params.id as string);
+  
+  if (!placelist) {
+    throw new Response("Not Found", { status: 404 });
+  }
+  
+  // Check if the user is the author
+  if (placelist.authorId !== user.id) {
+    throw new Response("Unauthorized: You can only export your own placelists", { status: 403 });
+  }
+  
+  const items = placelist.items;
+  const gpx = formatAsGpx(items, {
+    name: placelist.name,
+    description: placelist.description
+  });
+  
+  return new Response(gpx, {
+    headers: {
+      "Content-Type": "application/gpx+xml; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${getExportFilename(placelist.name, "gpx")}"`
+    }
+  });
+}
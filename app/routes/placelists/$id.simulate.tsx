@@ -0,0 +1,251 @@
+import { Link, useLoaderData } from "react-router";
+import { Fragment, useEffect, useRef, useState } from "react";
+import { GoogleMap, useJsApiLoader, Marker, Polygon, Circle } from "@react-google-maps/api";
+import type { Route } from "./+types/$id.simulate";
+import { getPlacelist } from "../../lib/db";
+import { getPolygonCenter, getUnlockRadius, type LatLng } from "../../lib/utils";
+import { getWindowPhase } from "../../lib/schedule";
+import { requireUser } from "../../lib/session";
+import type { PlacelistItem } from "../../lib/placelistParsers";
+import Player, { type GeoPosition, type PositionSource } from "../../components/Player";
+
+// Real GPS reports about once a second, so the simulated one does too
+const SIMULATED_FIX_INTERVAL_MS = 1000;
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const user = await requireUser(request);
+  const placelist = await getPlacelist(params.id as string);
+
+  if (!placelist) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  if (placelist.authorId !== user.id) {
+    throw new Response("Unauthorized: You can only simulate your own placelists", { status: 403 });
+  }
+
+  return { placelist };
+}
+
+export function meta({ data }: Route.MetaArgs) {
+  if (!data?.placelist) {
+    return [{ title: "Placelist Not Found - SpotiSpot" }];
+  }
+
+  return [
+    { title: `Simulate ${data.placelist.name} - SpotiSpot` },
+  ];
+}
+
+// A stand-in for the device's GPS that reports wherever the author puts it
+function createSimulatedPositionSource() {
+  const watchers = new Map<number, (fix: GeoPosition) => void>();
+  let nextWatchId = 1;
+
+  const source: PositionSource & { report: (fix: GeoPosition) => void } = {
+    watchPosition(onFix) {
+      const watchId = nextWatchId++;
+      watchers.set(watchId, onFix);
+      return watchId;
+    },
+    clearWatch(watchId) {
+      watchers.delete(watchId);
+    },
+    report(fix) {
+      watchers.forEach(onFix => onFix(fix));
+    },
+  };
+
+  return source;
+}
+
+// Where a stop's marker goes, and where "Go to stop" puts the player
+function getStopPoint(item: PlacelistItem): LatLng {
+  return item.area ? getPolygonCenter(item.area) : item.location;
+}
+
+// The value of a datetime-local input for a moment, in this device's time zone
+function toDateTimeInput(date: Date) {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+export default function SimulatePlacelist() {
+  const { placelist } = useLoaderData<typeof loader>();
+  const items = placelist.items as PlacelistItem[];
+
+  // Start a short walk south of the first stop, so there's somewhere to walk from
+  const [position, setPosition] = useState<LatLng>(() => {
+    const first = items[0] ? getStopPoint(items[0]) : { lat: 0, lng: 0 };
+    return { lat: first.lat - 0.003, lng: first.lng };
+  });
+  const [accuracy, setAccuracy] = useState(5);
+  const [simulatedTime, setSimulatedTime] = useState(() => toDateTimeInput(new Date()));
+  // Remounting the player starts the tour over
+  const [run, setRun] = useState(0);
+
+  const [positionSource] = useState(createSimulatedPositionSource);
+
+  // The simulated clock keeps ticking from the chosen time
+  const clock = useRef({ simulated: Date.now(), real: Date.now() });
+  const now = () => new Date(clock.current.simulated + Date.now() - clock.current.real);
+
+  function changeTime(value: string) {
+    const simulated = new Date(value).getTime();
+    if (isNaN(simulated)) return;
+
+    setSimulatedTime(value);
+    clock.current = { simulated, real: Date.now() };
+  }
+
+  // Keep reporting the simulated position like a phone would
+  useEffect(() => {
+    const report = () => positionSource.report({
+      coords: { latitude: position.lat, longitude: position.lng, accuracy },
+      timestamp: now().getTime(),
+    });
+
+    report();
+    const intervalId = setInterval(report, SIMULATED_FIX_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [positionSource, position, accuracy]);
+
+  const { isLoaded } = useJsApiLoader({
+    id: "google-map-script",
+    googleMapsApiKey: process.env.GOOGLE_MAPS_API_KEY || ""
+  });
+
+  const windowPhase = getWindowPhase(
+    now(),
+    { from: placelist.activeFrom ?? undefined, until: placelist.activeUntil ?? undefined },
+    items[0]?.location
+  );
+
+  const moveTo = (e: google.maps.MapMouseEvent) => {
+    if (e.latLng) {
+      setPosition({ lat: e.latLng.lat(), lng: e.latLng.lng() });
+    }
+  };
+
+  return (
+    <div>
+      <div className="container mx-auto px-4 pt-12 max-w-4xl">
+        <Link to={`/placelists/${placelist.id}`} className="text-green-500 hover:underline mb-4 inline-block">
+          ← Back to {placelist.name}
+        </Link>
+        <h1 className="text-3xl font-bold">Simulate Tour</h1>
+        <p className="text-gray-700 mt-2">
+          Try the tour without leaving your desk. Drag the blue marker or click the map to move,
+          and pick a time to check opening hours. Nothing you unlock here is saved.
+        </p>
+
+        <div className="bg-white rounded-lg border border-gray-200 p-4 mt-6 space-y-4">
+          {isLoaded ? (
+            <GoogleMap
+              mapContainerStyle={{ width: "100%", height: "360px" }}
+              center={position}
+              zoom={16}
+              options={{ streetViewControl: false, mapTypeControl: false, fullscreenControl: false }}
+              onClick={moveTo}
+            >
+              {items.map((item, index) => (
+                <Fragment key={index}>
+                  <Marker position={getStopPoint(item)} label={String(index + 1)} />
+                  {item.area ? (
+                    <Polygon
+                      paths={item.area}
+                      options={{ strokeColor: "#22c55e", strokeWeight: 2, fillColor: "#22c55e", fillOpacity: 0.15, clickable: false }}
+                    />
+                  ) : (
+                    <Circle
+                      center={item.location}
+                      radius={getUnlockRadius(item, placelist.defaultRadius)}
+                      options={{ strokeColor: "#22c55e", strokeWeight: 1, fillColor: "#22c55e", fillOpacity: 0.1, clickable: false }}
+                    />
+                  )}
+                </Fragment>
+              ))}
+              <Circle
+                center={position}
+                radius={accuracy}
+                options={{ strokeColor: "#3b82f6", strokeWeight: 1, fillColor: "#3b82f6", fillOpacity: 0.15, clickable: false }}
+              />
+              <Marker
+                position={position}
+                draggable
+                onDragEnd={moveTo}
+                icon={{
+                  path: google.maps.SymbolPath.CIRCLE,
+                  scale: 8,
+                  fillColor: "#3b82f6",
+                  fillOpacity: 1,
+                  strokeColor: "#ffffff",
+                  strokeWeight: 2
+                }}
+                title="Simulated position"
+              />
+            </GoogleMap>
+          ) : (
+            <div className="h-[360px] bg-gray-100 flex items-center justify-center">Loading Maps...</div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">Go to stop:</span>
+            {items.map((item, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => setPosition(getStopPoint(item))}
+                title={item.title}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-1 px-3 rounded"
+              >
+                {index + 1}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+            <label className="block">
+              <span className="block font-medium mb-1">Simulated time (on your clock)</span>
+              <input
+                type="datetime-local"
+                value={simulatedTime}
+                onChange={e => changeTime(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-green-500 focus:border-green-500"
+              />
+            </label>
+            <label className="block">
+              <span className="block font-medium mb-1">GPS accuracy: ±{accuracy}m</span>
+              <input
+                type="range"
+                min="1"
+                max="100"
+                value={accuracy}
+                onChange={e => setAccuracy(Number(e.target.value))}
+                className="w-full"
+              />
+            </label>
+            <div className="flex items-end">
+              <button
+                type="button"
+                onClick={() => setRun(run + 1)}
+                className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg"
+              >
+                Restart Tour
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <Player
+        key={run}
+        placelist={placelist}
+        progress={{ progress: 0, unlockedItemIds: [] }}
+        windowPhase={windowPhase}
+        simulation={{ positionSource, now }}
+        actions={<span className="text-sm font-medium text-blue-600">Simulation</span>}
+      />
+    </div>
+  );
+}
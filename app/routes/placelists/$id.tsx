@@ -1,9 +1,12 @@
-import { Link, redirect, useLoaderData, Form } from "react-router";
+import { Link, redirect, useActionData, useLoaderData, Form } from "react-router";
 import { useState, useEffect } from "react";
 import type { Route } from "./+types/$id";
-import { getPlacelist, createSession, deletePlacelist } from "../../lib/db";
+import { getPlacelist, getPlacelistUnlockEvents, createSession, deletePlacelist } from "../../lib/db";
 import { extractSpotifyTrackId, getGoogleStaticMapUrl } from "../../lib/utils";
 import { getSpotifyTrackInfo, type SpotifyTrackInfo } from "../../lib/spotify";
+import { describeAvailability, getWindowPhase } from "../../lib/schedule";
+import { countUnlockedStops } from "../../lib/unlock";
+import { formatDuration, summarizeTimings } from "../../lib/timings";
 import { getUser, requireUser } from "../../lib/session";
 
 interface EnhancedPlacelistItem {
@@ -12,6 +15,7 @@ interface EnhancedPlacelistItem {
     lng: number;
   };
   spotifyUrl: string;
+  title?: string;
   trackId: string | null;
   trackInfo?: SpotifyTrackInfo | null;
 }
@@ -32,7 +36,7 @@ export async function loader({ params, request }: Route.LoaderArgs) {
   }
   
   // Enhance items with Spotify track IDs
-  const items = placelist.items as Array<{ location: { lat: number; lng: number }; spotifyUrl: string }>;
+  const items = placelist.items as Array<{ location: { lat: number; lng: number }; spotifyUrl: string; title?: string }>;
   const enhancedItems: EnhancedPlacelistItem[] = [];
   
   for (const item of items) {
@@ -51,7 +55,10 @@ export async function loader({ params, request }: Route.LoaderArgs) {
     });
   }
   
-  return { placelist, enhancedItems, user };
+  // How long players have taken, from the times their stops were unlocked
+  const timings = summarizeTimings(placelist, placelist.sessions, await getPlacelistUnlockEvents(placelist.id));
+  
+  return { placelist, enhancedItems, timings, user };
 }
 
 export async function action({ params, request }: Route.ActionArgs) {
@@ -78,6 +85,13 @@ export async function action({ params, request }: Route.ActionArgs) {
   }
   
   if (intent === "createSession") {
+    // Links can be handed out before a seasonal placelist starts, but not once it is over
+    const items = placelist.items as Array<{ location: { lat: number; lng: number } }>;
+    const activeWindow = { from: placelist.activeFrom ?? undefined, until: placelist.activeUntil ?? undefined };
+    if (getWindowPhase(new Date(), activeWindow, items[0]?.location) === "after") {
+      return { sessionError: `This placelist ended on ${placelist.activeUntil}. Change its active dates to share it again.` };
+    }
+    
     const session = await createSession(placelist.id);
     return redirect(`/play/${session.id}`);
   }
@@ -97,7 +111,9 @@ export function meta({ data }: Route.MetaArgs) {
 }
 
 export default function PlacelistDetail() {
-  const { placelist, enhancedItems } = useLoaderData<typeof loader>();
+  const { placelist, enhancedItems, timings } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const flaggedCount = placelist.sessions.filter(session => session.flaggedAt).length;
   
   return (
     <div className="container mx-auto px-4 py-12 max-w-4xl">
@@ -111,8 +127,33 @@ export default function PlacelistDetail() {
             {placelist.description && (
               <p className="text-gray-700 mt-2">{placelist.description}</p>
             )}
+            {(placelist.activeFrom || placelist.activeUntil) && (
+              <p className="text-gray-500 text-sm mt-2">
+                Active {describeAvailability({ from: placelist.activeFrom ?? undefined, until: placelist.activeUntil ?? undefined })}
+              </p>
+            )}
           </div>
-          <div className="flex gap-3">
+          <div className="flex flex-wrap gap-3">
+            <a
+              href={`/placelists/${placelist.id}.gpx`}
+              download
+              className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg"
+            >
+              Export GPX
+            </a>
+            <a
+              href={`/placelists/${placelist.id}.geojson`}
+              download
+              className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg"
+            >
+              Export GeoJSON
+            </a>
+            <Link
+              to={`/placelists/${placelist.id}/simulate`}
+              className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg"
+            >
+              Simulate
+            </Link>
             <Link
               to={`/placelists/${placelist.id}/edit`}
               className="bg-gray-200 hover:bg-gray-300 text-gray-800 font-medium py-2 px-4 rounded-lg"
@@ -137,6 +178,17 @@ export default function PlacelistDetail() {
         </div>
       </div>
       
+      {flaggedCount > 0 && (
+        <div className="bg-yellow-50 p-4 rounded-lg border border-yellow-300 mb-8 flex flex-wrap justify-between items-center gap-2">
+          <span>
+            {flaggedCount === 1 ? "1 session has" : `${flaggedCount} sessions have`} been flagged for locations that look faked.
+          </span>
+          <Link to={`/placelists/${placelist.id}/flagged`} className="text-green-600 hover:underline font-medium">
+            Review
+          </Link>
+        </div>
+      )}
+
       {/* User Sessions Section */}
       {(placelist.activeSessions?.length > 0 || placelist.completedSessions?.length > 0) && (
         <div className="mb-8">
@@ -146,9 +198,8 @@ export default function PlacelistDetail() {
               <ul className="space-y-2">
                 {placelist.activeSessions.map(session => {
                   // Calculate completion percentage
-                  const items = placelist.items as any[];
-                  const totalItems = items.length;
-                  const percentage = Math.round((session.progress / totalItems) * 100);
+                  const totalItems = placelist.items.length;
+                  const percentage = Math.round((countUnlockedStops(placelist, session) / totalItems) * 100);
                   
                   return (
                     <li key={session.id} className="flex items-center">
@@ -177,6 +228,36 @@ export default function PlacelistDetail() {
         </div>
       )}
 
+      {timings.stops.some(stop => stop.medianSincePrevious !== null) && (
+        <div className="bg-gray-50 p-6 rounded-lg mb-8">
+          <h2 className="text-xl font-semibold mb-2">Timings</h2>
+          {timings.medianWalk !== null && (
+            <p className="text-gray-700 mb-4">
+              A finished walk typically takes {formatDuration(timings.medianWalk)} from the first stop to the last
+              ({timings.timedWalks === 1 ? "1 walk" : `${timings.timedWalks} walks`} timed).
+            </p>
+          )}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-medium pb-2">Stop</th>
+                <th className="font-medium pb-2">Unlocked</th>
+                <th className="font-medium pb-2">Typical time from the stop before</th>
+              </tr>
+            </thead>
+            <tbody>
+              {timings.stops.map(({ item, unlocks, medianSincePrevious }, index) => (
+                <tr key={item.id} className="border-t border-gray-200">
+                  <td className="py-2">{item.title || `Location ${index + 1}`}</td>
+                  <td className="py-2">{unlocks === 1 ? "1 time" : `${unlocks} times`}</td>
+                  <td className="py-2">{medianSincePrevious !== null ? formatDuration(medianSincePrevious) : "–"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       <div className="mb-8">
         <h2 className="text-xl font-semibold mb-4">Locations ({enhancedItems.length})</h2>
         <div className="bg-gray-50 p-6 rounded-lg">
@@ -202,7 +283,7 @@ export default function PlacelistDetail() {
                       {item.trackInfo ? (
                         <span className="font-medium">{item.trackInfo.name} - {item.trackInfo.artist}</span>
                       ) : (
-                        <span className="font-medium">Location {index + 1}</span>
+                        <span className="font-medium">{item.title || `Location ${index + 1}`}</span>
                       )}
                     </div>
                     
@@ -263,6 +344,9 @@ export default function PlacelistDetail() {
             Create Player Link
           </button>
         </Form>
+        {actionData?.sessionError && (
+          <p className="text-red-500 text-sm mt-2">{actionData.sessionError}</p>
+        )}
       </div>
     </div>
   );
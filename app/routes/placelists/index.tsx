@@ -1,6 +1,7 @@
 import { Link } from "react-router"
 import { getPlacelistsByUser, getUserSessionsGrouped } from "../../lib/db"
 import { requireUser } from "../../lib/session"
+import { countUnlockedStops } from "../../lib/unlock"
 import { Form } from "react-router"
 import type { Route } from './+types/index'
 
@@ -101,8 +102,9 @@ export default function PlacelistsIndex({ loaderData: { user, placelists, inProg
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 {inProgressSessions.map((session) => {
                   const placelist = session.placelist;
-                  const items = placelist.items as Array<{ location: { lat: number; lng: number }; spotifyUrl: string }>;
-                  const progress = Math.round((session.progress / items.length) * 100);
+                  const items = placelist.items;
+                  const unlocked = countUnlockedStops(placelist, session);
+                  const progress = Math.round((unlocked / items.length) * 100);
                   
                   return (
                     <div
@@ -122,7 +124,7 @@ export default function PlacelistsIndex({ loaderData: { user, placelists, inProg
                       
                       <div className="mb-3">
                         <div className="flex justify-between text-sm mb-1">
-                          <span>{session.progress} of {items.length} unlocked</span>
+                          <span>{unlocked} of {items.length} unlocked</span>
                           <span>{progress}%</span>
                         </div>
                         <div className="w-full bg-gray-200 rounded-full h-2.5">
@@ -5,8 +5,10 @@ import {
 } from "react-router"
 import type { Route } from "./+types/new"
 import { createPlacelist } from "../../lib/db"
-import { parsePlacelistText } from "../../lib/placelistParsers"
+import { parsePlacelistText, parsePlacemarkFile, hasParseErrors, writeYamlItemIds } from "../../lib/placelistParsers"
 import PlacelistEditor from "../../components/PlacelistEditor"
+import { DEFAULT_SPOOFING_STRICTNESS, parseSpoofingStrictness } from "../../lib/spoofing"
+import { PLAY_ORDERS } from "../../lib/placelistSchema"
 import { requireUser } from "../../lib/session"
 
 export async function loader({ request }: Route.LoaderArgs) {
@@ -20,8 +22,39 @@ export async function action({ request }: Route.ActionArgs) {
   const user = await requireUser(request)
 
   const formData = await request.formData()
+
+  // Uploaded map files are only parsed for review here; nothing is saved until the editor is submitted
+  if (formData.get("intent") === "import-file") {
+    const file = formData.get("importFile")
+
+    if (!(file instanceof File) || file.size === 0) {
+      return { importError: "Choose a KML or KMZ file to import", status: 400 }
+    }
+
+    try {
+      const bytes = new Uint8Array(await file.arrayBuffer())
+      const importedPlacemarks = parsePlacemarkFile(file.name, bytes)
+
+      if (importedPlacemarks.length === 0) {
+        return { importError: "No point placemarks found in the uploaded file", status: 400 }
+      }
+
+      return { importedPlacemarks }
+    } catch (error) {
+      return {
+        importError: error instanceof Error ? error.message : "Failed to import file",
+        status: 400
+      }
+    }
+  }
+
   const name = formData.get("name") as string
   const description = formData.get("description") as string
+  const defaultRadius = formData.get("defaultRadius") as string
+  const activeFrom = formData.get("activeFrom") as string
+  const activeUntil = formData.get("activeUntil") as string
+  const spoofingStrictness = parseSpoofingStrictness(formData.get("spoofingStrictness"))
+  const playOrder = PLAY_ORDERS.find(order => order === formData.get("playOrder"))
   const placelistText = formData.get("placelistText") as string
 
   const errors: Record<string, string> = {}
@@ -30,6 +63,14 @@ export async function action({ request }: Route.ActionArgs) {
     errors.name = "Name is required"
   }
 
+  if (defaultRadius && !(Number(defaultRadius) > 0)) {
+    errors.defaultRadius = "Unlock radius must be a positive number of meters"
+  }
+
+  if (activeFrom && activeUntil && activeFrom > activeUntil) {
+    errors.activeUntil = "The end date is before the start date"
+  }
+
   if (!placelistText || placelistText.trim() === "") {
     errors.placelistText = "Placelist content is required"
   }
@@ -37,18 +78,27 @@ export async function action({ request }: Route.ActionArgs) {
   if (Object.keys(errors).length > 0) {
     return {
       errors,
-      values: { name, description, placelistText },
+      values: { name, description, defaultRadius, activeFrom, activeUntil, spoofingStrictness, playOrder, placelistText },
       status: 400
     }
   }
 
   try {
-    const items = parsePlacelistText(placelistText)
+    const { format, items, diagnostics, ...header } = parsePlacelistText(placelistText)
+
+    if (hasParseErrors(diagnostics)) {
+      return {
+        errors: { placelistText: "Fix the problems listed below before saving" },
+        diagnostics,
+        values: { name, description, defaultRadius, activeFrom, activeUntil, spoofingStrictness, playOrder, placelistText },
+        status: 400
+      }
+    }
 
     if (items.length === 0) {
       return {
         errors: { placelistText: "No valid items found in placelist text" },
-        values: { name, description, placelistText },
+        values: { name, description, defaultRadius, activeFrom, activeUntil, spoofingStrictness, playOrder, placelistText },
         status: 400
       }
     }
@@ -56,7 +106,16 @@ export async function action({ request }: Route.ActionArgs) {
     const placelist = await createPlacelist({
       name,
       description: description || undefined,
+      // Settings typed into the form win over those in the YAML header
+      defaultRadius: defaultRadius ? Number(defaultRadius) : header.defaultRadius ?? null,
+      activeFrom: activeFrom || header.activeFrom || null,
+      activeUntil: activeUntil || header.activeUntil || null,
+      spoofingStrictness,
+      playOrder: playOrder ?? header.playOrder,
       items,
+      // Keep YAML as written so comments and extra fields are there when it is next edited,
+      // with each stop's ID filled in so it stays with the stop
+      source: format === 'yaml' ? writeYamlItemIds(placelistText, items) ?? placelistText : null,
       authorId: user.id,
     })
 
@@ -64,7 +123,7 @@ export async function action({ request }: Route.ActionArgs) {
   } catch (error) {
     return {
       errors: { placelistText: error instanceof Error ? error.message : "Failed to parse placelist" },
-      values: { name, description, placelistText },
+      values: { name, description, defaultRadius, activeFrom, activeUntil, spoofingStrictness, playOrder, placelistText },
       status: 400
     }
   }
@@ -88,9 +147,15 @@ export default function NewPlacelist() {
       defaultValues={{
         name: actionData?.values?.name || "",
         description: actionData?.values?.description || "",
+        defaultRadius: actionData?.values?.defaultRadius || "",
+        activeFrom: actionData?.values?.activeFrom || "",
+        activeUntil: actionData?.values?.activeUntil || "",
+        spoofingStrictness: actionData?.values?.spoofingStrictness || DEFAULT_SPOOFING_STRICTNESS,
+        playOrder: actionData?.values?.playOrder || "sequential",
         placelistText: actionData?.values?.placelistText || ""
       }}
       errors={actionData?.errors}
+      diagnostics={actionData?.diagnostics}
       isSubmitting={isSubmitting}
       isEditing={false}
     />
@@ -0,0 +1,10 @@
+import { placelistDocumentSchema } from "../../lib/placelistSchema";
+
+export async function loader() {
+  return new Response(JSON.stringify(placelistDocumentSchema, null, 2), {
+    headers: {
+      "Content-Type": "application/schema+json; charset=utf-8",
+      "Cache-Control": "public, max-age=3600"
+    }
+  });
+}
@@ -0,0 +1,83 @@
+-- Moves placelist items out of the JSON column they used to be kept in and into a
+-- PlacelistItem table of their own. Run it in place of `prisma db push` for this change,
+-- just before the version of the app that reads the table starts:
+--
+--   bun run db:migrate-items
+--
+-- It creates the table as the schema describes it, so `prisma db push` finds nothing left to
+-- do afterwards. Each stop keeps the ID sessions know it by; stops stored before they had IDs
+-- are numbered by position ("stop-3" for the third), as the app did when reading them. The old
+-- `items` column, now read as `legacyItems`, is kept but cleared, and can be dropped from the
+-- schema and the database once every server runs the new version.
+--
+-- Everything happens in one transaction, so a failure leaves the database as it was.
+
+BEGIN;
+
+CREATE TABLE "PlacelistItem" (
+    "id" TEXT NOT NULL,
+    "placelistId" TEXT NOT NULL,
+    "itemId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "lng" DOUBLE PRECISION NOT NULL,
+    "spotifyUrl" TEXT NOT NULL,
+    "trackId" TEXT,
+    "title" TEXT,
+    "clue" TEXT,
+    "arrivalText" TEXT,
+    "onlyDuring" TEXT,
+    "availability" JSONB,
+    "radius" DOUBLE PRECISION,
+    "area" JSONB,
+    "next" JSONB,
+    "choicePrompt" TEXT,
+
+    CONSTRAINT "PlacelistItem_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "PlacelistItem_placelistId_position_idx" ON "PlacelistItem"("placelistId", "position");
+CREATE INDEX "PlacelistItem_trackId_idx" ON "PlacelistItem"("trackId");
+CREATE INDEX "PlacelistItem_lat_lng_idx" ON "PlacelistItem"("lat", "lng");
+CREATE UNIQUE INDEX "PlacelistItem_placelistId_itemId_key" ON "PlacelistItem"("placelistId", "itemId");
+
+ALTER TABLE "PlacelistItem" ADD CONSTRAINT "PlacelistItem_placelistId_fkey"
+    FOREIGN KEY ("placelistId") REFERENCES "Placelist"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "Placelist" ALTER COLUMN "items" DROP NOT NULL;
+
+-- Version 1 items could have string coordinates, stale track IDs and empty optional fields;
+-- they are cleaned up here as the app's upgrade does
+INSERT INTO "PlacelistItem" (
+    "id", "placelistId", "itemId", "position", "lat", "lng", "spotifyUrl", "trackId", "title",
+    "clue", "arrivalText", "onlyDuring", "availability", "radius", "area", "next", "choicePrompt"
+)
+SELECT
+    gen_random_uuid()::text,
+    placelist."id",
+    COALESCE(NULLIF(entry.item->>'id', ''), 'stop-' || entry.ordinality),
+    entry.ordinality - 1,
+    (entry.item->'location'->>'lat')::double precision,
+    (entry.item->'location'->>'lng')::double precision,
+    entry.item->>'spotifyUrl',
+    CASE
+        WHEN placelist."formatVersion" < 2
+            THEN substring(entry.item->>'spotifyUrl' from '(?:spotify\.com/track/|spotify:track:)([a-zA-Z0-9]+)')
+        ELSE entry.item->>'trackId'
+    END,
+    NULLIF(entry.item->>'title', ''),
+    NULLIF(entry.item->>'clue', ''),
+    NULLIF(entry.item->>'arrivalText', ''),
+    NULLIF(entry.item->>'onlyDuring', ''),
+    NULLIF(entry.item->'availability', 'null'::jsonb),
+    (entry.item->>'radius')::double precision,
+    NULLIF(entry.item->'area', 'null'::jsonb),
+    NULLIF(entry.item->'next', 'null'::jsonb),
+    NULLIF(entry.item->>'choicePrompt', '')
+FROM "Placelist" placelist
+CROSS JOIN LATERAL jsonb_array_elements(placelist."items") WITH ORDINALITY AS entry(item, ordinality)
+WHERE jsonb_typeof(placelist."items") = 'array';
+
+UPDATE "Placelist" SET "items" = NULL;
+
+COMMIT;